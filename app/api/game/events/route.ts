@@ -0,0 +1,68 @@
+// app/api/game/events/route.ts
+// Server-Sent Events - pushes a fresh room snapshot on every change
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoomSnapshot } from '@/lib/gameState';
+import { Room, getRoom, subscribeToRoom } from '@/lib/rooms';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// GET - open a stream for ?room=CODE
+export async function GET(request: NextRequest) {
+  const code = request.nextUrl.searchParams.get('room');
+  const room = code ? getRoom(code) : undefined;
+  if (!room) {
+    return NextResponse.json({ error: 'Fant ikke rommet' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (changedRoom: Room) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(getRoomSnapshot(changedRoom))}\n\n`));
+      };
+
+      const unsubscribe = subscribeToRoom(room, send);
+
+      // Keeps proxies from closing an idle stream, and the room from expiring while watched
+      const heartbeat = setInterval(() => {
+        if (!getRoom(room.code)) {
+          cleanup();
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      send(room);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
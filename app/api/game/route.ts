@@ -2,63 +2,133 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
   getGameState,
+  getRoomSnapshot,
+  getAvatars,
   resetGame,
   resetToLobby,
   addPlayer,
+  addSpectator,
+  rejoinPlayer,
+  kickPlayer,
+  renamePlayer,
+  setLobbyLocked,
+  setTeams,
+  shuffleTeams,
   removePlayer,
   startGame,
   submitVote,
+  passVote,
+  submitAudienceVote,
+  submitPrediction,
   endVoting,
   nextQuestion,
-  getAvatars,
   setAvatar,
   validateToken,
+  getPlayerStats,
   setSettings,
-  getFinaleStats,
+  setPacks,
   setGameMode,
-  createCheckout,
-  markCheckoutPaid,
-  markCheckoutCanceled,
-  getUnlockInfo,
+  restorePurchase,
+  getReceipt,
   pauseGame,
   resumeGame,
   nextQuestionNow,
-  getGroupSize,
-  getQuestionTime,
-  MIN_PLAYERS,
-  MAX_PLAYERS,
+  endGame,
 } from '@/lib/gameState';
-import { questions } from '@/lib/questions';
-
-// GET - fetch current game state
-export async function GET() {
-  const state = getGameState();
-  const avatars = getAvatars();
-  const finaleSummary = getFinaleStats();
-  const unlockInfo = getUnlockInfo();
-  const groupSize = getGroupSize();
-  const questionTime = getQuestionTime();
-  return NextResponse.json({
-    ...state,
-    avatars,
-    finaleSummary,
-    unlockInfo,
-    groupSize,
-    questionTime,
-    minPlayers: MIN_PLAYERS,
-    maxPlayers: MAX_PLAYERS,
-  });
+import { Room, createRoom, getRoom, isHost, notifyRoom } from '@/lib/rooms';
+import { getPacks, createPack, updatePack, deletePack, getQuestionsForPacks } from '@/lib/questionPacks';
+import { startCheckout } from '@/lib/payments';
+import { getPurchaserId } from '@/lib/entitlements';
+
+// Actions that drive the game - only the TV holding the room's host token may call these
+const HOST_ACTIONS = new Set([
+  'setSettings',
+  'setPacks',
+  'createPack',
+  'updatePack',
+  'deletePack',
+  'start',
+  'endVoting',
+  'nextQuestion',
+  'reset',
+  'resetToLobby',
+  'setGameMode',
+  'createCheckout',
+  'restorePurchase',
+  'getReceipt',
+  'getRejoinPin',
+  'kick',
+  'rename',
+  'lockLobby',
+  'setTeams',
+  'shuffleTeams',
+  'pause',
+  'resume',
+  'nextQuestionNow',
+  'endGame',
+]);
+
+// Actions that only read the room - nothing to save or push afterwards
+const READ_ONLY_ACTIONS = new Set([
+  'getRejoinPin',
+  'listPacks',
+  'validateToken',
+  'myStats',
+  'getReceipt',
+]);
+
+// Tokens and ids from the body; anything else becomes '' and fails the lookup
+function stringField(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function roomNotFound() {
+  return NextResponse.json({ error: 'Fant ikke rommet' }, { status: 404 });
+}
+
+// GET - fetch current game state for ?room=CODE
+export async function GET(request: NextRequest) {
+  const code = request.nextUrl.searchParams.get('room');
+  const room = code ? getRoom(code) : undefined;
+  if (!room) return roomNotFound();
+
+  return NextResponse.json(getRoomSnapshot(room));
 }
 
 // POST - perform game actions
 export async function POST(request: NextRequest) {
-  const body = await request.json();
-  const { action } = body;
+  const body: Record<string, unknown> = await request.json();
+  const action = typeof body.action === 'string' ? body.action : '';
+
+  if (action === 'createRoom') {
+    // The TV's device id ties its purchases to it across rooms - see lib/entitlements.ts
+    const room = createRoom(getPurchaserId(body.deviceId));
+    return NextResponse.json({
+      success: true,
+      roomCode: room.code,
+      hostToken: room.hostToken,
+      state: getGameState(room),
+    });
+  }
+
+  const room = typeof body.room === 'string' ? getRoom(body.room) : undefined;
+  if (!room) return roomNotFound();
+
+  if (HOST_ACTIONS.has(action) && !isHost(room, body.hostToken)) {
+    return NextResponse.json({ error: 'Bare TV-skjermen kan styre spillet' }, { status: 403 });
+  }
 
+  const response = await handleAction(room, action, body);
+  // Push the new state to everyone listening on /api/game/events
+  if (response.ok && !READ_ONLY_ACTIONS.has(action)) notifyRoom(room);
+  return response;
+}
+
+async function handleAction(room: Room, action: string, body: Record<string, unknown>): Promise<NextResponse> {
   switch (action) {
     case 'join': {
-      const { name } = body;
-      const result = addPlayer(name);
+      const { name, spectator } = body;
+      const result = spectator === true ? addSpectator(room, name) : addPlayer(room, name);
       if (!result.success) {
         return NextResponse.json({ error: result.error }, { status: 400 });
       }
@@ -66,33 +136,149 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({
         success: true,
         token: result.token,
+        name: result.name,
         avatarId: result.avatarId,
         avatars,
-        state: getGameState(),
+        state: getGameState(room),
+      });
+    }
+
+    case 'rejoin': {
+      const { name, pin } = body;
+      const result = rejoinPlayer(room, name, pin);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({
+        success: true,
+        token: result.token,
+        name: result.name,
+        avatarId: result.avatarId,
+        avatars: getAvatars(),
+        state: getGameState(room),
       });
     }
 
+    case 'getRejoinPin': {
+      return NextResponse.json({ success: true, pin: room.rejoin.pin });
+    }
+
+    case 'kick': {
+      const { name } = body;
+      const result = kickPlayer(room, name);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, state: getGameState(room) });
+    }
+
+    case 'rename': {
+      const { name, newName } = body;
+      const result = renamePlayer(room, name, newName);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, state: getGameState(room) });
+    }
+
+    case 'lockLobby': {
+      const { locked } = body;
+      const result = setLobbyLocked(room, locked);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, state: getGameState(room) });
+    }
+
+    case 'setTeams': {
+      const { teams } = body;
+      const result = setTeams(room, teams);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, state: getGameState(room) });
+    }
+
+    case 'shuffleTeams': {
+      const { teamNames } = body;
+      const result = shuffleTeams(room, teamNames);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, state: getGameState(room) });
+    }
+
     case 'setAvatar': {
       const { token, avatarId } = body;
-      const result = setAvatar(token, avatarId);
+      const result = setAvatar(room, stringField(token), stringField(avatarId));
       if (!result.success) {
         return NextResponse.json({ error: result.error }, { status: 400 });
       }
-      return NextResponse.json({ success: true, state: getGameState() });
+      return NextResponse.json({ success: true, state: getGameState(room) });
     }
 
     case 'setSettings': {
-      const { tone, couplesSafe } = body;
-      const result = setSettings(tone, couplesSafe);
+      const { tone, couplesSafe, roundLength, openBallot, allowSelfVote, allowVoteChange, allowLateJoin, predictionBonus, tieBreak } = body;
+      const result = setSettings(room, {
+        tone,
+        couplesSafe,
+        roundLength,
+        openBallot,
+        allowSelfVote,
+        allowVoteChange,
+        allowLateJoin,
+        predictionBonus,
+        tieBreak,
+      });
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, state: getGameState(room) });
+    }
+
+    case 'setPacks': {
+      const { packIds } = body;
+      const result = setPacks(room, packIds);
       if (!result.success) {
         return NextResponse.json({ error: result.error }, { status: 400 });
       }
-      return NextResponse.json({ success: true, state: getGameState() });
+      return NextResponse.json({ success: true, state: getGameState(room) });
+    }
+
+    case 'listPacks': {
+      return NextResponse.json({ success: true, packs: getPacks(room.purchaserId) });
+    }
+
+    case 'createPack': {
+      const { pack } = body;
+      const result = createPack(room.purchaserId, pack);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, pack: result.pack, packs: getPacks(room.purchaserId) });
+    }
+
+    case 'updatePack': {
+      const { packId, pack } = body;
+      const result = updatePack(room.purchaserId, stringField(packId), pack);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, pack: result.pack, packs: getPacks(room.purchaserId) });
+    }
+
+    case 'deletePack': {
+      const { packId } = body;
+      const result = deletePack(room.purchaserId, stringField(packId));
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, packs: getPacks(room.purchaserId) });
     }
 
     case 'validateToken': {
       const { token } = body;
-      const result = validateToken(token);
+      const result = validateToken(room, stringField(token));
       if (!result.valid) {
         return NextResponse.json({ valid: false }, { status: 200 });
       }
@@ -102,64 +288,105 @@ export async function POST(request: NextRequest) {
         name: result.name,
         avatarId: result.avatarId,
         avatars,
-        state: getGameState(),
+        state: getGameState(room),
       });
     }
 
+    case 'myStats': {
+      const { token } = body;
+      const result = getPlayerStats(room, stringField(token));
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, stats: result.stats });
+    }
+
     case 'leave': {
       const { token } = body;
-      removePlayer(token);
-      return NextResponse.json({ success: true, state: getGameState() });
+      removePlayer(room, stringField(token));
+      return NextResponse.json({ success: true, state: getGameState(room) });
     }
 
     case 'start': {
-      const result = startGame(questions);
+      // An optional seed replays an earlier game, e.g. to reproduce a bug from /history
+      const { seed } = body;
+      if (seed !== undefined && !(typeof seed === 'number' && Number.isInteger(seed) && seed >= 0 && seed <= 0xffffffff)) {
+        return NextResponse.json({ error: 'Ugyldig seed' }, { status: 400 });
+      }
+      const result = startGame(room, getQuestionsForPacks(room.state.selectedPackIds, room.purchaserId), seed as number | undefined);
       if (!result.success) {
         return NextResponse.json({ error: result.error }, { status: 400 });
       }
-      return NextResponse.json({ success: true, state: getGameState() });
+      return NextResponse.json({ success: true, state: getGameState(room) });
     }
 
     case 'vote': {
       const { token, votedFor } = body;
-      const result = submitVote(token, votedFor);
+      const result = submitVote(room, stringField(token), votedFor);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, state: getGameState(room) });
+    }
+
+    case 'pass': {
+      const { token } = body;
+      const result = passVote(room, stringField(token));
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, state: getGameState(room) });
+    }
+
+    case 'audienceVote': {
+      const { token, votedFor } = body;
+      const result = submitAudienceVote(room, stringField(token), votedFor);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, state: getGameState(room) });
+    }
+
+    case 'predict': {
+      const { token, predictedWinner } = body;
+      const result = submitPrediction(room, stringField(token), predictedWinner);
       if (!result.success) {
         return NextResponse.json({ error: result.error }, { status: 400 });
       }
-      return NextResponse.json({ success: true, state: getGameState() });
+      return NextResponse.json({ success: true, state: getGameState(room) });
     }
 
     case 'endVoting': {
-      const result = endVoting();
-      return NextResponse.json({ success: true, result, state: getGameState() });
+      const result = endVoting(room);
+      return NextResponse.json({ success: true, result, state: getGameState(room) });
     }
 
     case 'nextQuestion': {
-      nextQuestion();
-      return NextResponse.json({ success: true, state: getGameState() });
+      nextQuestion(room);
+      return NextResponse.json({ success: true, state: getGameState(room) });
     }
 
     case 'reset': {
-      resetGame();
-      return NextResponse.json({ success: true, state: getGameState() });
+      resetGame(room);
+      return NextResponse.json({ success: true, state: getGameState(room) });
     }
 
     case 'resetToLobby': {
-      resetToLobby();
-      return NextResponse.json({ success: true, state: getGameState() });
+      resetToLobby(room);
+      return NextResponse.json({ success: true, state: getGameState(room) });
     }
 
     case 'setGameMode': {
       const { mode } = body;
-      const result = setGameMode(mode);
+      const result = setGameMode(room, mode);
       if (!result.success) {
         return NextResponse.json({ error: result.error }, { status: 400 });
       }
-      return NextResponse.json({ success: true, state: getGameState() });
+      return NextResponse.json({ success: true, state: getGameState(room) });
     }
 
     case 'createCheckout': {
-      const result = createCheckout();
+      const result = await startCheckout(room);
       if (!result.success) {
         return NextResponse.json({ error: result.error }, { status: 400 });
       }
@@ -167,50 +394,59 @@ export async function POST(request: NextRequest) {
         success: true,
         checkoutId: result.checkoutId,
         checkoutUrl: result.checkoutUrl,
-        state: getGameState(),
+        state: getGameState(room),
       });
     }
 
-    case 'checkoutPaid': {
-      const { cid } = body;
-      const result = markCheckoutPaid(cid);
+    case 'restorePurchase': {
+      const { receipt } = body;
+      const result = restorePurchase(room, receipt);
       if (!result.success) {
         return NextResponse.json({ error: result.error }, { status: 400 });
       }
-      return NextResponse.json({ success: true, state: getGameState() });
+      return NextResponse.json({ success: true, state: getGameState(room) });
     }
 
+    case 'getReceipt': {
+      return NextResponse.json({ success: true, receipt: getReceipt(room) });
+    }
+
+    // Payments are settled by the provider's webhook - see app/api/payments/webhook
+    case 'checkoutPaid':
     case 'checkoutCanceled': {
-      const { cid } = body;
-      const result = markCheckoutCanceled(cid);
-      if (!result.success) {
-        return NextResponse.json({ error: result.error }, { status: 400 });
-      }
-      return NextResponse.json({ success: true, state: getGameState() });
+      return NextResponse.json({ error: 'Betaling bekreftes av betalingsleverandøren' }, { status: 403 });
     }
 
     case 'pause': {
-      const result = pauseGame();
+      const result = pauseGame(room);
       if (!result.success) {
         return NextResponse.json({ error: result.error }, { status: 400 });
       }
-      return NextResponse.json({ success: true, state: getGameState() });
+      return NextResponse.json({ success: true, state: getGameState(room) });
     }
 
     case 'resume': {
-      const result = resumeGame();
+      const result = resumeGame(room);
       if (!result.success) {
         return NextResponse.json({ error: result.error }, { status: 400 });
       }
-      return NextResponse.json({ success: true, state: getGameState() });
+      return NextResponse.json({ success: true, state: getGameState(room) });
     }
 
     case 'nextQuestionNow': {
-      const result = nextQuestionNow();
+      const result = nextQuestionNow(room);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, state: getGameState(room) });
+    }
+
+    case 'endGame': {
+      const result = endGame(room);
       if (!result.success) {
         return NextResponse.json({ error: result.error }, { status: 400 });
       }
-      return NextResponse.json({ success: true, state: getGameState() });
+      return NextResponse.json({ success: true, state: getGameState(room) });
     }
 
     default:
@@ -0,0 +1,19 @@
+// app/api/history/route.ts
+// Past games hosted on this TV, for the /history page
+import { NextRequest, NextResponse } from 'next/server';
+import { getPurchaserId } from '@/lib/entitlements';
+import { getSessionsForHost } from '@/lib/history';
+
+export const dynamic = 'force-dynamic';
+
+// POST - list the games of the TV with { deviceId }, newest first. A POST keeps the device id out of URLs and logs.
+export async function POST(request: NextRequest) {
+  const { deviceId } = await request.json().catch(() => ({}));
+  const hostId = getPurchaserId(deviceId);
+  if (!hostId) {
+    return NextResponse.json({ error: 'Ugyldig enhet' }, { status: 400 });
+  }
+
+  const sessions = getSessionsForHost(hostId).map(({ hostId: _hostId, ...session }) => session);
+  return NextResponse.json({ sessions });
+}
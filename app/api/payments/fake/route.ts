@@ -0,0 +1,41 @@
+// app/api/payments/fake/route.ts
+// The fake provider's hosted payment page backend - only active with PAYMENT_PROVIDER=fake, never in production
+import { NextRequest, NextResponse } from 'next/server';
+import { completeFakeSession, getFakeSession, isFakeProvider } from '@/lib/payments';
+
+export const dynamic = 'force-dynamic';
+
+function sessionNotFound() {
+  return NextResponse.json({ error: 'Fant ikke betalingen' }, { status: 404 });
+}
+
+// GET - describe ?session=ID for the checkout page
+export async function GET(request: NextRequest) {
+  if (!isFakeProvider()) return sessionNotFound();
+
+  const sessionId = request.nextUrl.searchParams.get('session');
+  const session = sessionId ? getFakeSession(sessionId) : undefined;
+  if (!session) return sessionNotFound();
+
+  return NextResponse.json({
+    amountNok: session.amountNok,
+    description: session.description,
+    completed: session.completed,
+  });
+}
+
+// POST - the buyer paid or canceled; the provider then fires the signed webhook
+export async function POST(request: NextRequest) {
+  if (!isFakeProvider()) return sessionNotFound();
+
+  const { session, outcome } = await request.json();
+  if (typeof session !== 'string' || (outcome !== 'paid' && outcome !== 'canceled')) {
+    return NextResponse.json({ error: 'Ugyldig forespørsel' }, { status: 400 });
+  }
+
+  const result = completeFakeSession(session, outcome);
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,16 @@
+// app/api/payments/webhook/route.ts
+// Called by the payment provider when a checkout is paid or canceled
+import { NextRequest, NextResponse } from 'next/server';
+import { SIGNATURE_HEADER, handlePaymentWebhook } from '@/lib/payments';
+
+export const dynamic = 'force-dynamic';
+
+// POST - signed event; the signature covers the raw body, so read it as text
+export async function POST(request: NextRequest) {
+  const rawBody = await request.text();
+  const result = handlePaymentWebhook(rawBody, request.headers.get(SIGNATURE_HEADER));
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,48 @@
+// app/api/share/route.ts
+// Share cards as SVG images once a game has reached its finale
+import { NextRequest, NextResponse } from 'next/server';
+import { getFinaleStats } from '@/lib/gameState';
+import { getRoom } from '@/lib/rooms';
+import { renderFinaleCard, renderPlayerCard } from '@/lib/shareCard';
+
+export const dynamic = 'force-dynamic';
+
+// GET - the room's awards for ?room=CODE, or one player's own card with &player=NAME
+export async function GET(request: NextRequest) {
+  const code = request.nextUrl.searchParams.get('room');
+  const room = code ? getRoom(code) : undefined;
+  if (!room) {
+    return NextResponse.json({ error: 'Fant ikke rommet' }, { status: 404 });
+  }
+
+  const summary = getFinaleStats(room);
+  if (!summary) {
+    return NextResponse.json({ error: 'Spillet er ikke ferdig' }, { status: 409 });
+  }
+
+  let svg: string;
+  const playerName = request.nextUrl.searchParams.get('player');
+  if (playerName !== null) {
+    const player = room.state.players.find(p => p.name === playerName);
+    if (!player) {
+      return NextResponse.json({ error: 'Fant ikke spilleren' }, { status: 404 });
+    }
+    const place = summary.top3.findIndex(entry => entry.name === player.name && entry.wins > 0);
+    svg = renderPlayerCard({
+      player,
+      wins: room.state.winsByName[player.name] || 0,
+      place: place >= 0 ? place + 1 : null,
+      awards: summary.awards.filter(a => a.name === player.name),
+    });
+  } else {
+    svg = renderFinaleCard(summary);
+  }
+
+  return new Response(svg, {
+    headers: {
+      'Content-Type': 'image/svg+xml; charset=utf-8',
+      'Content-Disposition': 'inline; filename="hvem-i-stua.svg"',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -1,42 +1,59 @@
 // app/checkout/page.tsx
+// Hosted payment page of the fake payment provider (see lib/payments.ts)
 'use client';
 
 import { useSearchParams, useRouter } from 'next/navigation';
-import { Suspense, useState } from 'react';
+import { Suspense, useEffect, useState } from 'react';
+
+interface FakeSession {
+  amountNok: number;
+  description: string;
+  completed: boolean;
+}
 
 function CheckoutContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
-  const cid = searchParams.get('cid');
+  const sessionId = searchParams.get('session');
+  const [session, setSession] = useState<FakeSession | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [error, setError] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
 
-  const handlePay = async () => {
-    if (!cid || isProcessing) return;
-    setIsProcessing(true);
-
-    await fetch('/api/game', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action: 'checkoutPaid', cid }),
-    });
+  useEffect(() => {
+    if (!sessionId) return;
+    fetch(`/api/payments/fake?session=${encodeURIComponent(sessionId)}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (data) setSession(data);
+        else setNotFound(true);
+      })
+      .catch(() => setNotFound(true));
+  }, [sessionId]);
 
-    router.push(`/checkout/success?cid=${cid}`);
-  };
-
-  const handleCancel = async () => {
-    if (!cid || isProcessing) return;
+  // The provider settles the checkout by calling our webhook - the page never unlocks anything itself
+  const completeSession = async (outcome: 'paid' | 'canceled') => {
+    if (!sessionId || isProcessing) return;
     setIsProcessing(true);
+    setError('');
 
-    await fetch('/api/game', {
+    const res = await fetch('/api/payments/fake', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action: 'checkoutCanceled', cid }),
+      body: JSON.stringify({ session: sessionId, outcome }),
     });
 
-    router.push(`/checkout/cancel?cid=${cid}`);
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      setError(data.error || 'Noe gikk galt');
+      setIsProcessing(false);
+      return;
+    }
+
+    router.push(outcome === 'paid' ? '/checkout/success' : '/checkout/cancel');
   };
 
-  if (!cid) {
+  if (!sessionId || notFound) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-900 p-6">
         <div className="bg-gray-800 rounded-2xl p-8 max-w-md w-full text-center">
@@ -46,6 +63,24 @@ function CheckoutContent() {
     );
   }
 
+  if (!session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900">
+        <p className="text-gray-400">Laster...</p>
+      </div>
+    );
+  }
+
+  if (session.completed) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900 p-6">
+        <div className="bg-gray-800 rounded-2xl p-8 max-w-md w-full text-center">
+          <p className="text-gray-300">Denne betalingen er allerede fullført</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-900 p-6">
       <div className="bg-gray-800 rounded-2xl p-8 max-w-md w-full">
@@ -53,13 +88,13 @@ function CheckoutContent() {
         <div className="text-center mb-6">
           <div className="text-4xl mb-2">🔞</div>
           <h1 className="text-2xl font-bold text-white mb-1">Betaling</h1>
-          <p className="text-gray-400">18+ Late Night</p>
+          <p className="text-gray-400">{session.description}</p>
         </div>
 
         {/* Price */}
         <div className="bg-gray-700 rounded-xl p-4 mb-6 text-center">
           <p className="text-gray-400 text-sm">Totalt</p>
-          <p className="text-3xl font-bold text-white">69 kr</p>
+          <p className="text-3xl font-bold text-white">{session.amountNok} kr</p>
         </div>
 
         {/* Payment methods (visual only) */}
@@ -92,17 +127,21 @@ function CheckoutContent() {
           </p>
         </div>
 
+        {error && (
+          <p className="text-red-400 text-sm text-center mb-4">{error}</p>
+        )}
+
         {/* Buttons */}
         <div className="flex flex-col gap-3">
           <button
-            onClick={handlePay}
+            onClick={() => completeSession('paid')}
             disabled={isProcessing}
             className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-600 text-white text-lg font-bold py-4 rounded-xl transition-colors"
           >
             {isProcessing ? 'Behandler...' : 'Betal (simulert)'}
           </button>
           <button
-            onClick={handleCancel}
+            onClick={() => completeSession('canceled')}
             disabled={isProcessing}
             className="w-full bg-gray-700 hover:bg-gray-600 disabled:bg-gray-600 text-white text-lg font-semibold py-3 rounded-xl transition-colors"
           >
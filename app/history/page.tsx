@@ -0,0 +1,193 @@
+// app/history/page.tsx
+// Earlier games hosted on this TV - opened from the TV, which holds the device id
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+
+type QuestionKind = 'most-likely' | 'would-you-rather' | 'rank';
+
+interface Player {
+  name: string;
+  avatarId: string;
+}
+
+interface Team {
+  name: string;
+  members: string[];
+}
+
+interface Award {
+  title: string;
+  name: string;
+  avatarId: string;
+  valueText: string;
+}
+
+interface Top3Entry {
+  name: string;
+  wins: number;
+  avatarId: string;
+}
+
+interface TeamStanding {
+  name: string;
+  members: string[];
+  wins: number;
+  votes: number;
+}
+
+interface PlayedQuestion {
+  text: string;
+  kind: QuestionKind;
+  winner: string | null;
+  voteCount: Record<string, number>;
+}
+
+interface GameSession {
+  id: string;
+  roomCode: string;
+  gameMode: 'standard' | '18+';
+  startedAt: number;
+  finishedAt: number;
+  players: Player[];
+  teams: Team[];
+  questions: PlayedQuestion[];
+  summary: {
+    awards: Award[];
+    top3: Top3Entry[];
+    teamStandings?: TeamStanding[];
+  };
+}
+
+// Same key as the TV page
+const DEVICE_ID_STORAGE_KEY = 'tvDeviceId';
+
+function formatDate(timestamp: number): string {
+  return new Intl.DateTimeFormat('nb-NO', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(new Date(timestamp));
+}
+
+export default function HistoryPage() {
+  const [sessions, setSessions] = useState<GameSession[] | null>(null);
+  const [error, setError] = useState('');
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const deviceId = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+    if (!deviceId) {
+      setSessions([]);
+      return;
+    }
+
+    fetch('/api/history', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ deviceId }),
+    })
+      .then(res => res.json())
+      .then(data => {
+        if (data.sessions) setSessions(data.sessions);
+        else setError(data.error || 'Kunne ikke hente historikken');
+      })
+      .catch(() => setError('Kunne ikke hente historikken'));
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-900 p-6">
+      <div className="max-w-3xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-4xl font-bangers text-yellow-400 tracking-wide">📜 Tidligere kvelder</h1>
+          <Link href="/tv" className="text-gray-400 hover:text-white transition-colors">
+            Tilbake til TV-en
+          </Link>
+        </div>
+
+        {error && <p className="text-red-400 text-center">{error}</p>}
+        {!error && sessions === null && <p className="text-gray-400 text-center">Laster...</p>}
+        {sessions?.length === 0 && (
+          <p className="text-gray-400 text-center">Ingen ferdige spill på denne TV-en ennå</p>
+        )}
+
+        <div className="flex flex-col gap-3">
+          {sessions?.map(session => {
+            const isOpen = openId === session.id;
+            const mainAward = session.summary.awards[0];
+            return (
+              <div key={session.id} className="bg-gray-800 rounded-xl border border-white/10">
+                <button
+                  onClick={() => setOpenId(isOpen ? null : session.id)}
+                  className="w-full text-left p-4 flex justify-between items-center gap-4"
+                >
+                  <div>
+                    <p className="text-white font-semibold capitalize">{formatDate(session.finishedAt)}</p>
+                    <p className="text-gray-400 text-sm">
+                      {session.gameMode === '18+' && '🔞 '}
+                      {session.players.length} spillere · {session.questions.length} spørsmål
+                      {session.teams.length > 0 && ` · ${session.teams.length} lag`}
+                    </p>
+                  </div>
+                  {mainAward && (
+                    <p className="text-yellow-400 text-sm text-right">
+                      {mainAward.title}: <span className="font-bold">{mainAward.name}</span>
+                    </p>
+                  )}
+                </button>
+
+                {isOpen && (
+                  <div className="px-4 pb-4 border-t border-white/10">
+                    {session.summary.teamStandings && (
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        {session.summary.teamStandings.map((team, idx) => (
+                          <span key={team.name} className="px-2 py-1 rounded-md text-xs bg-white/5 border border-white/10 text-gray-300">
+                            {idx === 0 ? '🏆 ' : ''}{team.name}: {team.wins} seire
+                          </span>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="flex flex-wrap gap-2 mt-3">
+                      {session.summary.awards.map(award => (
+                        <span key={award.title} className="px-2 py-1 rounded-md text-xs bg-purple-900/50 border border-purple-500/40 text-gray-200">
+                          {award.title}: <span className="font-bold text-white">{award.name}</span> ({award.valueText})
+                        </span>
+                      ))}
+                    </div>
+
+                    {session.summary.top3.length > 0 && (
+                      <p className="text-gray-300 text-sm mt-3">
+                        🥇 {session.summary.top3.map(entry => `${entry.name} (${entry.wins})`).join(' · ')}
+                      </p>
+                    )}
+
+                    <ol className="mt-3 flex flex-col gap-2">
+                      {session.questions.map((question, idx) => (
+                        <li key={idx} className="text-sm">
+                          <p className="text-gray-200">{idx + 1}. {question.text}</p>
+                          <p className="text-gray-500 text-xs">
+                            {question.winner ? <span className="text-yellow-400">{question.winner}</span> : 'Ingen vinner'}
+                            {' · '}
+                            {Object.entries(question.voteCount)
+                              .filter(([, count]) => count > 0)
+                              .sort((a, b) => b[1] - a[1])
+                              .map(([name, count]) => `${name} ${count}${question.kind === 'rank' ? 'p' : ''}`)
+                              .join(', ')}
+                          </p>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
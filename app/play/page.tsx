@@ -1,7 +1,8 @@
 // app/play/page.tsx
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { Suspense, useState, useEffect, useCallback, useRef } from 'react';
 
 interface Avatar {
   id: string;
@@ -13,6 +14,18 @@ interface Player {
   avatarId: string;
 }
 
+type QuestionKind = 'most-likely' | 'would-you-rather' | 'rank';
+
+interface QuestionFormat {
+  kind: QuestionKind;
+  options?: string[];
+}
+
+interface Team {
+  name: string;
+  members: string[];
+}
+
 type GameMode = 'standard' | '18+';
 type CheckoutStatus = 'open' | 'paid' | 'canceled';
 
@@ -28,12 +41,23 @@ interface UnlockInfo {
 }
 
 interface GameState {
-  phase: 'lobby' | 'question' | 'reveal' | 'gameover';
+  phase: 'lobby' | 'question' | 'tiebreak' | 'reveal' | 'gameover';
   players: Player[];
+  waitingPlayers: Player[];
+  spectators: Player[];
   currentQuestion: number;
-  votes: Record<string, string>;
+  votesCast: number;
+  audienceVotesCast: number;
   questionStartTime: number | null;
   selectedQuestions: string[];
+  questionFormats: QuestionFormat[];
+  tiedCandidates: string[];
+  roundLength: number | 'endless';
+  openBallot: boolean;
+  allowSelfVote: boolean;
+  allowVoteChange: boolean;
+  predictionBonus: boolean;
+  teams: Team[];
   avatars: Avatar[];
   gameMode: GameMode;
   checkout: Checkout | null;
@@ -41,17 +65,38 @@ interface GameState {
   isPaused: boolean;
   pausedAt: number | null;
   pauseAccumulatedMs: number;
+  deadline: number | null;
   questionTime: number;
   maxPlayers: number;
+  maxNameLength: number;
+  rankSize: number;
+}
+
+interface PlayerStats {
+  name: string;
+  team: string | null;
+  wins: number;
+  totalVotesReceived: number;
+  votesThisQuestion: number | null;
+  predictionPoints: number;
+  questionsWon: string[];
 }
 
 type Step = 'loading' | 'join' | 'avatar' | 'game';
 
 const DEFAULT_QUESTION_TIME = 20;
-
-export default function PlayPage() {
+const POLL_INTERVAL = 1000;
+const ROOM_CODE_LENGTH = 4;
+// Until the room tells us its own limit
+const DEFAULT_MAX_NAME_LENGTH = 20;
+// What the server answers once our token is retired - see lib/gameState.ts
+const INVALID_TOKEN_ERROR = 'Ugyldig spiller-token';
+
+function PlayContent() {
+  const searchParams = useSearchParams();
   const [state, setState] = useState<GameState | null>(null);
   const [step, setStep] = useState<Step>('loading');
+  const [roomCode, setRoomCode] = useState('');
   const [playerName, setPlayerName] = useState('');
   const [playerToken, setPlayerToken] = useState('');
   const [playerAvatarId, setPlayerAvatarId] = useState('');
@@ -60,42 +105,80 @@ export default function PlayPage() {
   const [error, setError] = useState('');
   const [hasVoted, setHasVoted] = useState(false);
   const [votedFor, setVotedFor] = useState('');
+  // Picks so far on a ranking question, best first
+  const [ranking, setRanking] = useState<string[]>([]);
+  // Who we guessed will win this question, with the prediction bonus on
+  const [prediction, setPrediction] = useState('');
+  const [showRejoin, setShowRejoin] = useState(false);
+  const [rejoinPin, setRejoinPin] = useState('');
   const [timeLeft, setTimeLeft] = useState(DEFAULT_QUESTION_TIME);
+  const [myStats, setMyStats] = useState<PlayerStats | null>(null);
+  const [maxNameLength, setMaxNameLength] = useState(DEFAULT_MAX_NAME_LENGTH);
 
-  // Get dynamic question time from state
-  const questionTime = state?.questionTime ?? DEFAULT_QUESTION_TIME;
-
+  const roomCodeRef = useRef<string>('');
   const savedNameRef = useRef<string>('');
   const savedAvatarRef = useRef<string>('');
-  const lastQuestionRef = useRef<number>(-1);
+  // The question and phase we last voted in - a tie-break is a new vote on the same question
+  const lastRoundRef = useRef<string>('');
+
+  const isSpectator = !!state?.spectators?.some(p => p.name === savedNameRef.current);
 
   const getAvatarIcon = (avatarId: string): string => {
     const avatar = avatars.find(a => a.id === avatarId);
     return avatar?.icon || '👤';
   };
 
+  // Back to the join screen without a seat, e.g. after being kicked
+  const dropToJoin = (message: string) => {
+    localStorage.removeItem('playerToken');
+    setPlayerToken('');
+    setError(message);
+    setStep('join');
+  };
+
+  const postGame = async (payload: Record<string, unknown>) => {
+    const res = await fetch('/api/game', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...payload, room: roomCodeRef.current }),
+    });
+    // Someone reclaimed our seat with the PIN, or the host kicked us - our name may still be in the room
+    if (payload.token && !res.ok) {
+      const data = await res.clone().json().catch(() => null);
+      if (data?.error === INVALID_TOKEN_ERROR) dropToJoin('Du er ikke lenger med i spillet');
+    }
+    return res;
+  };
+
+  const changeRoomCode = (code: string) => {
+    const normalized = code.trim().toUpperCase();
+    roomCodeRef.current = normalized;
+    setRoomCode(normalized);
+  };
+
   useEffect(() => {
     const savedToken = localStorage.getItem('playerToken');
+    const savedRoom = localStorage.getItem('playerRoom') || '';
     const savedName = localStorage.getItem('playerName');
     const savedAvatar = localStorage.getItem('playerAvatarId');
+    const urlRoom = (searchParams.get('room') || '').toUpperCase();
 
     if (savedName) savedNameRef.current = savedName;
     if (savedAvatar) savedAvatarRef.current = savedAvatar;
+    changeRoomCode(urlRoom || savedRoom);
 
-    if (savedToken) {
+    // A saved token only belongs to the room it was issued in
+    if (savedToken && (!urlRoom || urlRoom === savedRoom)) {
       attemptResume(savedToken);
     } else {
       setStep('join');
+      if (savedName) setPlayerName(savedName);
     }
   }, []);
 
   const attemptResume = async (token: string) => {
     try {
-      const res = await fetch('/api/game', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'validateToken', token }),
-      });
+      const res = await postGame({ action: 'validateToken', token });
 
       const data = await res.json();
 
@@ -126,71 +209,142 @@ export default function PlayPage() {
     }
   };
 
-  const fetchState = useCallback(async () => {
-    const res = await fetch('/api/game');
-    const data: GameState = await res.json();
+  const applyState = useCallback((data: GameState) => {
     setState(data);
     if (data.avatars) {
       setAvatars(data.avatars);
     }
 
-    if (data.phase === 'question' && lastQuestionRef.current !== data.currentQuestion) {
-      lastQuestionRef.current = data.currentQuestion;
+    const round = `${data.currentQuestion}:${data.phase}`;
+    if ((data.phase === 'question' || data.phase === 'tiebreak') && lastRoundRef.current !== round) {
+      lastRoundRef.current = round;
       setHasVoted(false);
       setVotedFor('');
+      setRanking([]);
+      setPrediction('');
     }
   }, []);
 
+  const fetchState = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/game?room=${roomCodeRef.current}`);
+      if (res.status === 404) {
+        localStorage.removeItem('playerToken');
+        setError('Rommet finnes ikke lenger');
+        setStep('join');
+        return;
+      }
+      if (res.ok) applyState(await res.json());
+    } catch {
+      // Network hiccup - keep showing the last state; the next poll or event catches up
+    }
+  }, [applyState]);
+
+  // Live updates over SSE; poll only while the stream is down
   useEffect(() => {
     if (step !== 'game') return;
+
+    let pollInterval: NodeJS.Timeout | null = null;
+    const startPolling = () => {
+      if (!pollInterval) pollInterval = setInterval(fetchState, POLL_INTERVAL);
+    };
+    const stopPolling = () => {
+      if (pollInterval) clearInterval(pollInterval);
+      pollInterval = null;
+    };
+
+    const events = new EventSource(`/api/game/events?room=${roomCodeRef.current}`);
+    events.onopen = stopPolling;
+    events.onmessage = (e) => applyState(JSON.parse(e.data));
+    events.onerror = () => {
+      startPolling();
+      fetchState();
+    };
+
     fetchState();
-    const interval = setInterval(fetchState, 1000);
-    return () => clearInterval(interval);
-  }, [step, fetchState]);
+    return () => {
+      events.close();
+      stopPolling();
+    };
+  }, [step, fetchState, applyState]);
 
+  // The room's name limit is set on the server, so look it up once the code is typed in
   useEffect(() => {
-    if (state?.phase !== 'question' || !state.questionStartTime) return;
-
-    const updateTimer = () => {
-      const now = Date.now();
-      let elapsedMs = now - state.questionStartTime! - state.pauseAccumulatedMs;
+    if (step !== 'join' || roomCode.length !== ROOM_CODE_LENGTH) return;
+    fetch(`/api/game?room=${roomCode}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (data?.maxNameLength) setMaxNameLength(data.maxNameLength);
+      })
+      .catch(() => {});
+  }, [step, roomCode]);
+
+  // Missing from the room: the host renamed us (token still valid) or kicked us
+  useEffect(() => {
+    if (step !== 'game' || !state || !playerToken) return;
+    const inRoom = [...state.players, ...(state.waitingPlayers || []), ...(state.spectators || [])].some(p => p.name === savedNameRef.current);
+    if (inRoom) return;
+
+    postGame({ action: 'validateToken', token: playerToken })
+      .then(res => res.json())
+      .then(data => {
+        if (data.valid) {
+          savedNameRef.current = data.name;
+          setPlayerName(data.name);
+          localStorage.setItem('playerName', data.name);
+        } else {
+          dropToJoin('Du ble fjernet fra spillet');
+        }
+      })
+      .catch(() => {});
+  }, [state, step, playerToken]);
 
-      // If currently paused, subtract the current pause duration
-      if (state.isPaused && state.pausedAt) {
-        elapsedMs -= (now - state.pausedAt);
-      }
+  useEffect(() => {
+    if ((state?.phase !== 'question' && state?.phase !== 'tiebreak') || !state.deadline) return;
 
-      const elapsed = Math.floor(elapsedMs / 1000);
-      const remaining = Math.max(0, questionTime - elapsed);
+    const updateTimer = () => {
+      // While paused the clock stands still at the moment the pause began
+      const now = state.isPaused && state.pausedAt ? state.pausedAt : Date.now();
+      const remaining = Math.max(0, Math.ceil((state.deadline! - now) / 1000));
       setTimeLeft(remaining);
     };
 
     updateTimer();
     const interval = setInterval(updateTimer, 100);
     return () => clearInterval(interval);
-  }, [state?.phase, state?.questionStartTime, state?.currentQuestion, state?.isPaused, state?.pausedAt, state?.pauseAccumulatedMs, questionTime]);
+  }, [state?.phase, state?.deadline, state?.isPaused, state?.pausedAt]);
 
-  const handleJoin = async (e: React.FormEvent) => {
+  // Our own numbers, fetched as each result and the finale come in
+  useEffect(() => {
+    if (!playerToken || isSpectator || (state?.phase !== 'reveal' && state?.phase !== 'gameover')) return;
+    postGame({ action: 'myStats', token: playerToken })
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => setMyStats(data?.stats ?? null))
+      .catch(() => {});
+  }, [state?.phase, state?.currentQuestion, playerToken, isSpectator]);
+
+  const handleJoin = async (e: React.SyntheticEvent, spectator = false) => {
     e.preventDefault();
     setError('');
 
-    const res = await fetch('/api/game', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action: 'join', name: playerName.trim() }),
-    });
+    const res = await postGame({ action: 'join', name: playerName.trim(), spectator });
 
     const data = await res.json();
 
     if (!res.ok) {
       setError(data.error || 'Kunne ikke bli med');
+      // The name is taken - perhaps by this player on a phone that lost its token
+      setShowRejoin(data.error === 'Navnet er allerede tatt');
       return;
     }
 
+    // The server may have tidied the name up (spacing, invisible characters)
     localStorage.setItem('playerToken', data.token);
-    localStorage.setItem('playerName', playerName.trim());
-    savedNameRef.current = playerName.trim();
+    localStorage.setItem('playerRoom', roomCodeRef.current);
+    localStorage.setItem('playerName', data.name);
+    savedNameRef.current = data.name;
 
+    setPlayerName(data.name);
     setPlayerToken(data.token);
     setPlayerAvatarId(data.avatarId);
     setSelectedAvatarId(data.avatarId);
@@ -199,15 +353,41 @@ export default function PlayPage() {
     setStep('avatar');
   };
 
+  const handleRejoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const res = await postGame({ action: 'rejoin', name: playerName.trim(), pin: rejoinPin.trim() });
+    const data = await res.json();
+
+    if (!res.ok) {
+      setError(data.error || 'Kunne ikke koble til igjen');
+      return;
+    }
+
+    localStorage.setItem('playerToken', data.token);
+    localStorage.setItem('playerRoom', roomCodeRef.current);
+    localStorage.setItem('playerName', data.name);
+    localStorage.setItem('playerAvatarId', data.avatarId);
+    savedNameRef.current = data.name;
+    savedAvatarRef.current = data.avatarId;
+
+    setPlayerToken(data.token);
+    setPlayerName(data.name);
+    setPlayerAvatarId(data.avatarId);
+    setSelectedAvatarId(data.avatarId);
+    setAvatars(data.avatars || []);
+    setState(data.state);
+    setShowRejoin(false);
+    setRejoinPin('');
+    setStep('game');
+  };
+
   const handleAvatarConfirm = async () => {
     if (!selectedAvatarId) return;
 
     if (selectedAvatarId !== playerAvatarId) {
-      const res = await fetch('/api/game', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'setAvatar', token: playerToken, avatarId: selectedAvatarId }),
-      });
+      const res = await postGame({ action: 'setAvatar', token: playerToken, avatarId: selectedAvatarId });
 
       if (res.ok) {
         const data = await res.json();
@@ -224,24 +404,48 @@ export default function PlayPage() {
     setStep('game');
   };
 
-  const handleVote = async (votedForPlayer: string) => {
+  // A name, a would-you-rather option or a ranking
+  const handleVote = async (choice: string | string[]) => {
     if (hasVoted) return;
 
-    const res = await fetch('/api/game', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        action: 'vote',
-        token: playerToken,
-        votedFor: votedForPlayer,
-      }),
+    const res = await postGame({
+      action: isSpectator ? 'audienceVote' : 'vote',
+      token: playerToken,
+      votedFor: choice,
     });
 
     const data = await res.json();
 
     if (res.ok) {
       setHasVoted(true);
-      setVotedFor(votedForPlayer);
+      setVotedFor(Array.isArray(choice) ? choice.join(', ') : choice);
+    } else if (data.error === 'Du har allerede stemt') {
+      setHasVoted(true);
+    }
+  };
+
+  // Can be changed until voting ends, before or after voting
+  const handlePredict = async (predictedWinner: string) => {
+    const res = await postGame({ action: 'predict', token: playerToken, predictedWinner });
+    if (res.ok) setPrediction(predictedWinner);
+  };
+
+  const toggleRanked = (name: string, rankSize: number) => {
+    setRanking(current => {
+      if (current.includes(name)) return current.filter(n => n !== name);
+      return current.length < rankSize ? [...current, name] : current;
+    });
+  };
+
+  const handlePass = async () => {
+    if (hasVoted) return;
+
+    const res = await postGame({ action: 'pass', token: playerToken });
+    const data = await res.json();
+
+    if (res.ok) {
+      setHasVoted(true);
+      setVotedFor('');
     } else if (data.error === 'Du har allerede stemt') {
       setHasVoted(true);
     }
@@ -249,11 +453,7 @@ export default function PlayPage() {
 
   const handleLeave = async () => {
     if (playerToken) {
-      await fetch('/api/game', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'leave', token: playerToken }),
-      });
+      await postGame({ action: 'leave', token: playerToken });
     }
 
     localStorage.removeItem('playerToken');
@@ -277,11 +477,7 @@ export default function PlayPage() {
     }
 
     setError('');
-    const res = await fetch('/api/game', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action: 'join', name: nameToUse.trim() }),
-    });
+    const res = await postGame({ action: 'join', name: nameToUse.trim(), spectator: isSpectator });
 
     const data = await res.json();
 
@@ -292,22 +488,19 @@ export default function PlayPage() {
     }
 
     localStorage.setItem('playerToken', data.token);
-    localStorage.setItem('playerName', nameToUse.trim());
-    savedNameRef.current = nameToUse.trim();
+    localStorage.setItem('playerRoom', roomCodeRef.current);
+    localStorage.setItem('playerName', data.name);
+    savedNameRef.current = data.name;
 
     setPlayerToken(data.token);
-    setPlayerName(nameToUse);
+    setPlayerName(data.name);
     setPlayerAvatarId(data.avatarId);
     setAvatars(data.avatars || []);
     setState(data.state);
 
     const avatarToUse = savedAvatarRef.current;
     if (avatarToUse && avatarToUse !== data.avatarId) {
-      const avatarRes = await fetch('/api/game', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'setAvatar', token: data.token, avatarId: avatarToUse }),
-      });
+      const avatarRes = await postGame({ action: 'setAvatar', token: data.token, avatarId: avatarToUse });
 
       if (avatarRes.ok) {
         setPlayerAvatarId(avatarToUse);
@@ -341,13 +534,24 @@ export default function PlayPage() {
         <h1 className="text-3xl font-bold mb-8 text-center">Bli med i spillet</h1>
 
         <form onSubmit={handleJoin} className="w-full max-w-sm">
+          <input
+            type="text"
+            value={roomCode}
+            onChange={(e) => changeRoomCode(e.target.value)}
+            placeholder="Romkode"
+            className="w-full text-2xl p-4 rounded-xl bg-gray-800 border-2 border-gray-700 focus:border-blue-500 focus:outline-none mb-4 font-mono uppercase tracking-widest text-center"
+            maxLength={ROOM_CODE_LENGTH}
+            autoCapitalize="characters"
+            autoComplete="off"
+          />
+
           <input
             type="text"
             value={playerName}
             onChange={(e) => setPlayerName(e.target.value)}
             placeholder="Ditt navn"
             className="w-full text-2xl p-4 rounded-xl bg-gray-800 border-2 border-gray-700 focus:border-blue-500 focus:outline-none mb-4"
-            maxLength={20}
+            maxLength={maxNameLength}
             autoFocus
           />
 
@@ -355,12 +559,45 @@ export default function PlayPage() {
 
           <button
             type="submit"
-            disabled={!playerName.trim()}
+            disabled={!playerName.trim() || !roomCode}
             className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white text-xl font-bold py-4 rounded-xl transition-colors"
           >
             Bli med
           </button>
+          <button
+            type="button"
+            onClick={(e) => handleJoin(e, true)}
+            disabled={!playerName.trim() || !roomCode}
+            className="w-full mt-3 py-3 rounded-xl text-gray-300 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            👀 Bare se på
+          </button>
         </form>
+
+        {showRejoin && (
+          <form onSubmit={handleRejoin} className="w-full max-w-sm mt-6 pt-6 border-t border-gray-800">
+            <p className="text-gray-400 text-center mb-3">
+              Er dette deg? Skriv inn PIN-koden fra TV-en for å få plassen din tilbake.
+            </p>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={rejoinPin}
+              onChange={(e) => setRejoinPin(e.target.value.replace(/\D/g, ''))}
+              placeholder="PIN"
+              className="w-full text-2xl p-4 rounded-xl bg-gray-800 border-2 border-gray-700 focus:border-blue-500 focus:outline-none mb-4 font-mono tracking-widest text-center"
+              maxLength={4}
+              autoComplete="off"
+            />
+            <button
+              type="submit"
+              disabled={rejoinPin.length !== 4}
+              className="w-full bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white text-xl font-bold py-4 rounded-xl transition-colors"
+            >
+              Koble til igjen
+            </button>
+          </form>
+        )}
       </div>
     );
   }
@@ -412,6 +649,7 @@ export default function PlayPage() {
   if (state.phase === 'lobby') {
     const showCheckoutBanner = state.checkout?.status === 'open';
     const show18LockedBanner = state.gameMode === '18+' && !state.unlockInfo?.unlocked && !showCheckoutBanner;
+    const myTeam = state.teams?.find(team => team.members.includes(savedNameRef.current));
 
     return (
       <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-gray-900">
@@ -438,7 +676,10 @@ export default function PlayPage() {
 
         <div className="text-5xl mb-2">{getAvatarIcon(playerAvatarId)}</div>
         <h1 className="text-2xl font-bold mb-2">{playerName}</h1>
-        <p className="text-gray-400 mb-8">Venter på at spillet starter...</p>
+        <p className="text-gray-400 mb-8">
+          {isSpectator ? 'Du ser på - venter på at spillet starter...' : 'Venter på at spillet starter...'}
+        </p>
+        {myTeam && <p className="text-purple-300 -mt-6 mb-8">Du er på {myTeam.name}</p>}
 
         <div className="bg-gray-800 rounded-xl p-6 w-full max-w-sm mb-8">
           <h2 className="text-lg font-semibold mb-4">
@@ -457,6 +698,9 @@ export default function PlayPage() {
               </span>
             ))}
           </div>
+          {state.spectators?.length > 0 && (
+            <p className="text-gray-500 text-sm mt-4">👀 {state.spectators.length} ser på</p>
+          )}
         </div>
 
         <button
@@ -469,8 +713,34 @@ export default function PlayPage() {
     );
   }
 
-  // VOTING SCREEN
-  if (state.phase === 'question') {
+  // LATE JOINER - WAITING FOR THE NEXT QUESTION
+  if (state.phase !== 'gameover' && state.waitingPlayers?.some(p => p.name === savedNameRef.current)) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-gray-900">
+        <div className="text-6xl mb-4">{getAvatarIcon(playerAvatarId)}</div>
+        <h1 className="text-2xl font-bold mb-2">Du er med!</h1>
+        <p className="text-gray-400 text-center">Du blir med fra neste spørsmål</p>
+      </div>
+    );
+  }
+
+  // VOTING SCREEN - also the revote after a tie
+  if (state.phase === 'question' || state.phase === 'tiebreak') {
+    const format: QuestionFormat = state.questionFormats?.[state.currentQuestion] || { kind: 'most-likely' };
+    const isTieBreak = state.phase === 'tiebreak';
+    const inRunning = (name: string) => !isTieBreak || state.tiedCandidates.includes(name);
+    // Everyone who can be ranked by this player - teams in team mode
+    const rankCandidates = state.teams?.length > 0
+      ? state.teams
+        .filter(team => state.allowSelfVote || !team.members.includes(savedNameRef.current))
+        .map(team => ({ name: team.name, icon: team.members.map(name => getAvatarIcon(state.players.find(p => p.name === name)?.avatarId || '')).join('') }))
+      : state.players
+        .filter(player => state.allowSelfVote || player.name !== savedNameRef.current)
+        .map(player => ({ name: player.name, icon: getAvatarIcon(player.avatarId) }));
+    const rankSize = Math.min(state.rankSize ?? 3, rankCandidates.length);
+    const canPredict = state.predictionBonus && !isSpectator && !isTieBreak && format.kind !== 'would-you-rather';
+    const predictionCandidates = state.teams?.length > 0 ? state.teams.map(team => team.name) : state.players.map(player => player.name);
+
     return (
       <div className="min-h-screen flex flex-col p-4 bg-gray-900">
         {/* Pause banner */}
@@ -482,7 +752,9 @@ export default function PlayPage() {
 
         <div className="flex justify-between items-center mb-4">
           <span className="text-gray-500">
-            {state.currentQuestion + 1}/20
+            {state.roundLength === 'endless'
+              ? `#${state.currentQuestion + 1}`
+              : `${state.currentQuestion + 1}/${state.selectedQuestions.length}`}
           </span>
           <span
             className={`text-2xl font-bold ${
@@ -499,33 +771,182 @@ export default function PlayPage() {
           </p>
         </div>
 
-        {hasVoted ? (
+        {canPredict && (
+          <div className="mb-4">
+            <p className="text-purple-300 text-sm text-center mb-2">🔮 Hvem tror du vinner? Riktig tips gir poeng</p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {predictionCandidates.map(name => (
+                <button
+                  key={name}
+                  onClick={() => handlePredict(name)}
+                  disabled={state.isPaused}
+                  className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                    prediction === name
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-gray-800 hover:bg-gray-700 text-gray-300 disabled:opacity-50'
+                  }`}
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {isTieBreak && isSpectator ? (
+          <div className="flex-1 flex flex-col items-center justify-center">
+            <p className="text-orange-400 text-xl mb-2">⚔️ Omkamp!</p>
+            <p className="text-gray-400 text-center">Spillerne stemmer på nytt mellom {state.tiedCandidates.join(' og ')}</p>
+          </div>
+        ) : hasVoted ? (
           <div className="flex-1 flex flex-col items-center justify-center">
             <p className="text-green-500 text-xl mb-2">Stemt!</p>
-            <p className="text-gray-400">Du stemte på {votedFor}</p>
+            <p className="text-gray-400">
+              {!votedFor
+                ? 'Du sto over denne'
+                : format.kind === 'would-you-rather'
+                ? `Du valgte ${votedFor}`
+                : format.kind === 'rank'
+                ? `Din rangering: ${votedFor}`
+                : `Du stemte på ${votedFor}`}
+            </p>
+            {isSpectator && <p className="text-gray-500 text-sm mt-1">Publikumsstemmen vises for seg på TV-en</p>}
+            {state.allowVoteChange && !state.isPaused && (
+              <button
+                onClick={() => {
+                  setHasVoted(false);
+                  setRanking([]);
+                }}
+                className="mt-6 px-6 py-3 rounded-xl bg-gray-800 hover:bg-gray-700 text-white font-semibold transition-colors"
+              >
+                Endre stemme
+              </button>
+            )}
           </div>
         ) : (
           <div className="flex-1">
             <p className="text-gray-400 text-center mb-3">
-              {state.isPaused ? 'Venter på at spillet fortsetter...' : 'Hvem velger du?'}
+              {state.isPaused
+                ? 'Venter på at spillet fortsetter...'
+                : isTieBreak
+                ? '⚔️ Uavgjort! Stem på nytt'
+                : format.kind === 'would-you-rather'
+                ? 'Hva velger du?'
+                : format.kind === 'rank'
+                ? `Trykk i rekkefølge - topp ${rankSize}`
+                : 'Hvem velger du?'}
             </p>
-            <div className="grid grid-cols-2 gap-2">
-              {state.players.map((player) => (
+            {isSpectator ? (
+              <p className="text-gray-500 text-xs text-center mb-3">👀 Du ser på – stemmen din teller bare i publikumsstemmene</p>
+            ) : state.openBallot && (
+              <p className="text-yellow-500/80 text-xs text-center mb-3">👀 Åpne stemmer – TV-en viser hvem du stemte på</p>
+            )}
+            {format.kind === 'would-you-rather' ? (
+              <div className="grid grid-cols-1 gap-3">
+                {(format.options || []).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => handleVote(option)}
+                    disabled={state.isPaused}
+                    className={`font-semibold text-xl py-8 px-4 rounded-xl transition-colors ${
+                      state.isPaused
+                        ? 'bg-gray-700 text-gray-500 cursor-not-allowed'
+                        : 'bg-gray-800 hover:bg-blue-600 active:bg-blue-700 text-white'
+                    }`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            ) : format.kind === 'rank' ? (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  {rankCandidates.map(candidate => {
+                    const place = ranking.indexOf(candidate.name);
+                    return (
+                      <button
+                        key={candidate.name}
+                        onClick={() => toggleRanked(candidate.name, rankSize)}
+                        disabled={state.isPaused}
+                        className={`relative font-semibold py-4 px-2 rounded-xl transition-colors flex items-center justify-center gap-2 ${
+                          state.isPaused
+                            ? 'bg-gray-700 text-gray-500 cursor-not-allowed'
+                            : place >= 0
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-800 hover:bg-gray-700 text-white'
+                        }`}
+                      >
+                        {place >= 0 && (
+                          <span className="absolute top-1 left-2 text-sm font-bold text-yellow-300">{place + 1}</span>
+                        )}
+                        <span className="text-2xl">{candidate.icon}</span>
+                        <span className="text-base">{candidate.name}</span>
+                      </button>
+                    );
+                  })}
+                </div>
                 <button
-                  key={player.name}
-                  onClick={() => handleVote(player.name)}
-                  disabled={state.isPaused}
-                  className={`font-semibold py-4 rounded-xl transition-colors flex items-center justify-center gap-2 ${
-                    state.isPaused
-                      ? 'bg-gray-700 text-gray-500 cursor-not-allowed'
-                      : 'bg-gray-800 hover:bg-blue-600 active:bg-blue-700 text-white'
-                  }`}
+                  onClick={() => handleVote(ranking)}
+                  disabled={state.isPaused || ranking.length !== rankSize}
+                  className="w-full mt-4 py-4 rounded-xl bg-green-600 hover:bg-green-700 disabled:bg-gray-700 disabled:text-gray-500 text-white text-lg font-bold transition-colors"
                 >
-                  <span className="text-2xl">{getAvatarIcon(player.avatarId)}</span>
-                  <span className="text-base">{player.name}</span>
+                  Send rangering
                 </button>
-              ))}
-            </div>
+              </>
+            ) : state.teams?.length > 0 ? (
+              <div className="grid grid-cols-1 gap-2">
+                {state.teams
+                  .filter(team => inRunning(team.name))
+                  .filter(team => state.allowSelfVote || isSpectator || !team.members.includes(savedNameRef.current))
+                  .map((team) => (
+                    <button
+                      key={team.name}
+                      onClick={() => handleVote(team.name)}
+                      disabled={state.isPaused}
+                      className={`font-semibold py-4 px-3 rounded-xl transition-colors flex flex-col items-center gap-1 ${
+                        state.isPaused
+                          ? 'bg-gray-700 text-gray-500 cursor-not-allowed'
+                          : 'bg-gray-800 hover:bg-blue-600 active:bg-blue-700 text-white'
+                      }`}
+                    >
+                      <span className="text-lg">{team.name}</span>
+                      <span className="text-sm text-gray-400">
+                        {team.members.map(name => getAvatarIcon(state.players.find(p => p.name === name)?.avatarId || '')).join(' ')}
+                      </span>
+                    </button>
+                  ))}
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {state.players
+                  .filter(player => inRunning(player.name))
+                  .filter(player => state.allowSelfVote || player.name !== savedNameRef.current)
+                  .map((player) => (
+                    <button
+                      key={player.name}
+                      onClick={() => handleVote(player.name)}
+                      disabled={state.isPaused}
+                      className={`font-semibold py-4 rounded-xl transition-colors flex items-center justify-center gap-2 ${
+                        state.isPaused
+                          ? 'bg-gray-700 text-gray-500 cursor-not-allowed'
+                          : 'bg-gray-800 hover:bg-blue-600 active:bg-blue-700 text-white'
+                      }`}
+                    >
+                      <span className="text-2xl">{getAvatarIcon(player.avatarId)}</span>
+                      <span className="text-base">{player.name}</span>
+                    </button>
+                  ))}
+              </div>
+            )}
+            {!isSpectator && (
+              <button
+                onClick={handlePass}
+                disabled={state.isPaused}
+                className="w-full mt-4 py-3 rounded-xl text-gray-400 bg-gray-800/60 hover:bg-gray-700 disabled:opacity-50 transition-colors"
+              >
+                Stå over
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -546,17 +967,72 @@ export default function PlayPage() {
         <div className="text-6xl mb-4">📺</div>
         <h1 className="text-2xl font-bold mb-2 text-center">Se på TV-skjermen!</h1>
         <p className="text-gray-400 text-center">Resultatene vises der</p>
+
+        {myStats && (
+          <div className="bg-gray-800 rounded-xl p-4 mt-6 w-full max-w-sm text-center">
+            {myStats.votesThisQuestion !== null && (
+              <p className="text-lg text-white mb-1">
+                {myStats.team ? `${myStats.team} fikk` : 'Du fikk'} {myStats.votesThisQuestion}{' '}
+                {state.questionFormats?.[state.currentQuestion]?.kind === 'rank'
+                  ? (myStats.votesThisQuestion === 1 ? 'førsteplass' : 'førsteplasser')
+                  : (myStats.votesThisQuestion === 1 ? 'stemme' : 'stemmer')}
+              </p>
+            )}
+            <p className="text-gray-400 text-sm">
+              Så langt: {myStats.wins} {myStats.wins === 1 ? 'seier' : 'seire'} · {myStats.totalVotesReceived} stemmer
+              {myStats.team && ' til laget'}
+            </p>
+          </div>
+        )}
       </div>
     );
   }
 
   // GAME OVER / FINALE
   if (state.phase === 'gameover') {
+    const isPlaying = state.players.some(p => p.name === savedNameRef.current);
+    const shareUrl = `/api/share?room=${encodeURIComponent(roomCodeRef.current)}`;
+    const playerCardUrl = `${shareUrl}&player=${encodeURIComponent(savedNameRef.current)}`;
+
     return (
       <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-gray-900">
         <div className="text-6xl mb-4">🏆</div>
         <h1 className="text-3xl font-bold mb-2 text-center">Finale!</h1>
-        <p className="text-gray-400 mb-8 text-center">Se prisutdelingen på TV-skjermen</p>
+        <p className="text-gray-400 mb-6 text-center">Se prisutdelingen på TV-skjermen</p>
+
+        {myStats && (
+          <div className="bg-gray-800 rounded-xl p-4 mb-6 w-full max-w-sm">
+            <p className="text-white text-center mb-2">
+              {myStats.wins} {myStats.wins === 1 ? 'seier' : 'seire'} · {myStats.totalVotesReceived} stemmer
+              {state.predictionBonus && ` · 🔮 ${myStats.predictionPoints} poeng`}
+            </p>
+            {myStats.questionsWon.length > 0 ? (
+              <>
+                <p className="text-gray-400 text-sm mb-1">{myStats.team ? `${myStats.team} vant:` : 'Du vant:'}</p>
+                <ul className="text-sm text-gray-200 list-disc pl-5 space-y-1">
+                  {myStats.questionsWon.map((text, idx) => <li key={idx}>{text}</li>)}
+                </ul>
+              </>
+            ) : (
+              <p className="text-gray-400 text-sm text-center">Du slapp unna i kveld 😇</p>
+            )}
+          </div>
+        )}
+
+        {/* Share cards - long-press or download to share */}
+        {isPlaying && (
+          <img src={playerCardUrl} alt="Ditt delekort" className="w-full max-w-sm rounded-xl mb-3 shadow-lg" />
+        )}
+        <div className="flex gap-4 mb-8 text-sm">
+          {isPlaying && (
+            <a href={playerCardUrl} download="min-kveld.svg" className="text-purple-400 hover:text-purple-300">
+              📸 Last ned kortet ditt
+            </a>
+          )}
+          <a href={shareUrl} download="kveldens-priser.svg" className="text-purple-400 hover:text-purple-300">
+            🏆 Kveldens priser
+          </a>
+        </div>
 
         <button
           onClick={handleNewRound}
@@ -577,3 +1053,15 @@ export default function PlayPage() {
 
   return null;
 }
+
+export default function PlayPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center bg-gray-900">
+        <p className="text-xl text-gray-400">Kobler til...</p>
+      </div>
+    }>
+      <PlayContent />
+    </Suspense>
+  );
+}
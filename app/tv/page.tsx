@@ -1,6 +1,7 @@
 // app/tv/page.tsx
 'use client';
 
+import Link from 'next/link';
 import { useState, useEffect, useCallback, useRef } from 'react';
 
 interface Avatar {
@@ -14,11 +15,41 @@ interface Player {
 }
 
 type QuestionTone = 'mild' | 'spicy' | 'drøy';
+type QuestionRisk = 'safe' | 'relationship-risk';
+type RoundLength = 5 | 10 | 20 | 30 | 'endless';
 type GameMode = 'standard' | '18+';
 type CheckoutStatus = 'open' | 'paid' | 'canceled';
 type GroupSize = 'small' | 'medium' | 'large';
 type AudioTrack = 'lobby' | 'pause' | 'sporsmal' | null;
 
+type QuestionKind = 'most-likely' | 'would-you-rather' | 'rank';
+
+interface QuestionFormat {
+  kind: QuestionKind;
+  options?: string[];
+}
+
+interface Question {
+  text: string;
+  tone: QuestionTone;
+  risk: QuestionRisk;
+  kind?: QuestionKind;
+  options?: string[];
+}
+
+interface QuestionPack {
+  id: string;
+  name: string;
+  questions: Question[];
+  builtIn: boolean;
+}
+
+interface PackDraft {
+  id: string | null;
+  name: string;
+  questions: Question[];
+}
+
 interface Checkout {
   id: string;
   status: CheckoutStatus;
@@ -28,6 +59,8 @@ interface Checkout {
 interface UnlockInfo {
   unlocked: boolean;
   until: number | null;
+  purchasedAt: number | null;
+  purchasedBy: string | null;
 }
 
 interface RerollInfo {
@@ -49,9 +82,37 @@ interface Top3Entry {
   avatarId: string;
 }
 
+interface Team {
+  name: string;
+  members: string[];
+}
+
+interface TeamStanding {
+  name: string;
+  members: string[];
+  wins: number;
+  votes: number;
+}
+
+interface TeamAward {
+  title: string;
+  name: string;
+  members: string[];
+  valueText: string;
+}
+
+interface PredictorEntry {
+  name: string;
+  points: number;
+  avatarId: string;
+}
+
 interface FinaleSummary {
   awards: Award[];
   top3: Top3Entry[];
+  topPredictors?: PredictorEntry[];
+  teamAwards?: TeamAward[];
+  teamStandings?: TeamStanding[];
 }
 
 interface CondensedTop3Entry {
@@ -67,20 +128,56 @@ interface CondensedResults {
   othersPercentage: number;
 }
 
+interface RoomSettings {
+  tone: QuestionTone;
+  couplesSafe: boolean;
+  roundLength: RoundLength;
+  openBallot: boolean;
+  allowSelfVote: boolean;
+  allowVoteChange: boolean;
+  allowLateJoin: boolean;
+  predictionBonus: boolean;
+  tieBreak: boolean;
+}
+
+interface Ballot {
+  voter: string;
+  target: string;
+}
+
 interface GameState {
-  phase: 'lobby' | 'question' | 'reveal' | 'gameover';
+  roomCode: string;
+  phase: 'lobby' | 'question' | 'tiebreak' | 'reveal' | 'gameover';
   players: Player[];
+  waitingPlayers: Player[];
+  spectators: Player[];
   currentQuestion: number;
-  votes: Record<string, string>;
+  votesCast: number;
+  audienceVotesCast: number;
+  predictionsCast: number;
   questionStartTime: number | null;
   selectedQuestions: string[];
+  questionFormats: QuestionFormat[];
+  tiedCandidates: string[];
   avatars: Avatar[];
   selectedTone: QuestionTone;
   couplesSafe: boolean;
+  selectedPackIds: string[];
+  roundLength: RoundLength;
+  openBallot: boolean;
+  allowSelfVote: boolean;
+  allowVoteChange: boolean;
+  allowLateJoin: boolean;
+  predictionBonus: boolean;
+  tieBreak: boolean;
+  lobbyLocked: boolean;
+  teams: Team[];
   lastWinnerName: string | null;
   recentWinners: string[];
   recentTargets: Record<string, number>;
   rerollInfo: RerollInfo | null;
+  revealResult: RevealResult | null;
+  deadline: number | null;
   finaleSummary: FinaleSummary | null;
   gameMode: GameMode;
   showUpsell: boolean;
@@ -93,23 +190,67 @@ interface GameState {
   questionTime: number;
   minPlayers: number;
   maxPlayers: number;
+  maxNameLength: number;
+  rankSize: number;
+  rejoinPinVersion: number;
+}
+
+interface AudienceResult {
+  voteCount: Record<string, number>;
+  total: number;
+}
+
+interface PredictionResult {
+  correct: string[];
+  total: number;
 }
 
-interface RevealResult {
+interface MostLikelyResult {
+  kind: 'most-likely';
   winner: string;
   winnerAvatarId: string;
   percentage: number;
   voteCount: Record<string, number>;
   rerollInfo: RerollInfo | null;
+  tieBreak?: { candidates: string[]; voteCount: Record<string, number> };
   condensedResults?: CondensedResults;
+  ballots?: Ballot[];
+  audience?: AudienceResult;
+  predictions?: PredictionResult;
+  winnerMembers?: string[];
+}
+
+interface WouldYouRatherResult {
+  kind: 'would-you-rather';
+  options: Array<{ text: string; votes: number; percentage: number }>;
+  ballots?: Ballot[];
+  audience?: AudienceResult;
+}
+
+interface RankingResult {
+  kind: 'rank';
+  winner: string;
+  winnerAvatarId: string;
+  ranking: Array<{ name: string; points: number; firstPlaces: number }>;
+  ballots?: Ballot[];
+  audience?: AudienceResult;
+  predictions?: PredictionResult;
+  winnerMembers?: string[];
 }
 
+type RevealResult = MostLikelyResult | WouldYouRatherResult | RankingResult;
+
 const DEFAULT_QUESTION_TIME = 20;
 const INTERSTITIAL_TIME = 1000;
 const REVEAL_HOLD_TIME = 5000;
 const MAX_PLAYERS = 12;
+const MAX_NAME_LENGTH = 20;
 const MIN_PLAYERS = 3;
 const AUDIO_VOLUME = 0.2;
+const POLL_INTERVAL = 1000;
+const ROOM_STORAGE_KEY = 'tvRoomCode';
+const HOST_TOKEN_STORAGE_KEY = 'tvHostToken';
+const DEVICE_ID_STORAGE_KEY = 'tvDeviceId';
 
 const TRACK_SOURCES: Record<Exclude<AudioTrack, null>, string> = {
   lobby: '/lobby.mp3',
@@ -117,6 +258,15 @@ const TRACK_SOURCES: Record<Exclude<AudioTrack, null>, string> = {
   sporsmal: '/sporsmal.mp3',
 };
 
+// Default names and colors for team mode, by team index
+const TEAM_NAMES = ['Rødt lag', 'Blått lag', 'Grønt lag', 'Gult lag'];
+const TEAM_COLORS = [
+  'bg-red-500/15 border-red-400/40',
+  'bg-blue-500/15 border-blue-400/40',
+  'bg-green-500/15 border-green-400/40',
+  'bg-yellow-500/15 border-yellow-400/40',
+];
+
 // Subtle color variants for empty slots (same hue family, 8-12% opacity)
 const EMPTY_SLOT_COLORS = [
   'bg-purple-500/8',
@@ -135,8 +285,26 @@ function formatExpiryTime(until: number | null): string {
   }).format(date);
 }
 
+// Stays on this TV across rooms, so its purchases follow it
+function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+  if (!deviceId) {
+    deviceId = Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+    localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+  }
+  return deviceId;
+}
+
 type TVOverlay = 'none' | 'interstitial';
-type ModalType = 'none' | 'unlock18' | 'payment';
+type ModalType = 'none' | 'unlock18' | 'payment' | 'packEditor' | 'moderatePlayer';
+
+const EMPTY_QUESTION: Question = { text: '', tone: 'mild', risk: 'safe' };
+const ROUND_LENGTHS: RoundLength[] = [5, 10, 20, 30, 'endless'];
+
+function formatQuestionProgress(state: GameState): string {
+  const current = state.currentQuestion + 1;
+  return state.roundLength === 'endless' ? `#${current}` : `${current} / ${state.selectedQuestions.length}`;
+}
 
 function TVLayout({ children, wide = false }: { children: React.ReactNode; wide?: boolean }) {
   return (
@@ -153,17 +321,38 @@ function TVLayout({ children, wide = false }: { children: React.ReactNode; wide?
 
 export default function TVPage() {
   const [state, setState] = useState<GameState | null>(null);
+  const [roomCode, setRoomCode] = useState<string>('');
   const [timeLeft, setTimeLeft] = useState(DEFAULT_QUESTION_TIME);
-  const [revealResult, setRevealResult] = useState<RevealResult | null>(null);
   const [joinUrl, setJoinUrl] = useState<string>('');
   const [startError, setStartError] = useState<string>('');
 
   const [tvOverlay, setTvOverlay] = useState<TVOverlay>('none');
   const [activeModal, setActiveModal] = useState<ModalType>('none');
   const [checkoutUrl, setCheckoutUrl] = useState<string>('');
+  const [receipt, setReceipt] = useState<string>('');
+  const [receiptInput, setReceiptInput] = useState<string>('');
+  const [restoreError, setRestoreError] = useState<string>('');
 
   const [localTone, setLocalTone] = useState<QuestionTone>('spicy');
   const [localCouplesSafe, setLocalCouplesSafe] = useState(false);
+  const [localPackIds, setLocalPackIds] = useState<string[]>(['standard']);
+  const [localRoundLength, setLocalRoundLength] = useState<RoundLength>(20);
+  const [localOpenBallot, setLocalOpenBallot] = useState(false);
+  const [localAllowSelfVote, setLocalAllowSelfVote] = useState(true);
+  const [localAllowVoteChange, setLocalAllowVoteChange] = useState(false);
+  const [localAllowLateJoin, setLocalAllowLateJoin] = useState(false);
+  const [localPredictionBonus, setLocalPredictionBonus] = useState(false);
+  const [localTieBreak, setLocalTieBreak] = useState(false);
+  const [rejoinPin, setRejoinPin] = useState<string>('');
+
+  const [moderatedPlayer, setModeratedPlayer] = useState<string>('');
+  const [renameValue, setRenameValue] = useState<string>('');
+  const [moderationError, setModerationError] = useState<string>('');
+  const [teamError, setTeamError] = useState<string>('');
+
+  const [packs, setPacks] = useState<QuestionPack[]>([]);
+  const [packDraft, setPackDraft] = useState<PackDraft | null>(null);
+  const [packError, setPackError] = useState<string>('');
   const [localGameMode, setLocalGameMode] = useState<GameMode>('standard');
 
   // Audio state
@@ -172,6 +361,8 @@ export default function TVPage() {
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const currentTrackRef = useRef<AudioTrack>(null);
 
+  const roomCodeRef = useRef<string>('');
+  const hostTokenRef = useRef<string>('');
   const hasEndedRef = useRef(false);
   const currentQuestionRef = useRef<number>(-1);
   const revealTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -250,6 +441,7 @@ export default function TVPage() {
       case 'lobby':
         return 'lobby';
       case 'question':
+      case 'tiebreak':
       case 'reveal':
         return 'sporsmal';
       case 'gameover':
@@ -295,10 +487,10 @@ export default function TVPage() {
   }, [audioUnlocked, soundEnabled, state, getTrackForPhase, playTrack]);
 
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      setJoinUrl(window.location.origin + '/play');
+    if (typeof window !== 'undefined' && roomCode) {
+      setJoinUrl(`${window.location.origin}/play?room=${roomCode}`);
     }
-  }, []);
+  }, [roomCode]);
 
   useEffect(() => {
     return () => {
@@ -312,22 +504,105 @@ export default function TVPage() {
     return avatar?.icon || '👤';
   };
 
-  const fetchState = useCallback(async () => {
-    const res = await fetch('/api/game');
+  const postGame = (payload: Record<string, unknown>) => {
+    return fetch('/api/game', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...payload, room: roomCodeRef.current, hostToken: hostTokenRef.current }),
+    });
+  };
+
+  const enterRoom = useCallback((code: string, hostToken: string) => {
+    roomCodeRef.current = code;
+    hostTokenRef.current = hostToken;
+    localStorage.setItem(ROOM_STORAGE_KEY, code);
+    localStorage.setItem(HOST_TOKEN_STORAGE_KEY, hostToken);
+    setRoomCode(code);
+  }, []);
+
+  const createRoom = useCallback(async () => {
+    const res = await fetch('/api/game', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'createRoom', deviceId: getDeviceId() }),
+    });
     const data = await res.json();
+    if (data.roomCode) {
+      enterRoom(data.roomCode, data.hostToken);
+      setState(null);
+    }
+  }, [enterRoom]);
+
+  // Reclaim the room from a previous visit, or open a new one
+  useEffect(() => {
+    const savedRoom = localStorage.getItem(ROOM_STORAGE_KEY);
+    const savedHostToken = localStorage.getItem(HOST_TOKEN_STORAGE_KEY);
+    if (savedRoom && savedHostToken) {
+      enterRoom(savedRoom, savedHostToken);
+    } else {
+      createRoom();
+    }
+  }, [enterRoom, createRoom]);
+
+  const applyState = useCallback((data: GameState) => {
     setState(data);
     if (data.phase === 'lobby') {
       setLocalTone(data.selectedTone);
       setLocalCouplesSafe(data.couplesSafe);
+      setLocalRoundLength(data.roundLength);
+      setLocalOpenBallot(data.openBallot);
+      setLocalAllowSelfVote(data.allowSelfVote);
+      setLocalAllowVoteChange(data.allowVoteChange);
+      setLocalAllowLateJoin(data.allowLateJoin);
+      setLocalPredictionBonus(data.predictionBonus);
+      setLocalTieBreak(data.tieBreak);
+      setLocalPackIds(data.selectedPackIds);
       setLocalGameMode(data.gameMode);
     }
   }, []);
 
+  const fetchState = useCallback(async () => {
+    if (!roomCodeRef.current) return;
+    try {
+      const res = await fetch(`/api/game?room=${roomCodeRef.current}`);
+      if (res.status === 404) {
+        // Room expired or server restarted - start over with a fresh one
+        await createRoom();
+        return;
+      }
+      if (res.ok) applyState(await res.json());
+    } catch {
+      // Network hiccup - keep showing the last state; the next poll or event catches up
+    }
+  }, [createRoom, applyState]);
+
+  // Live updates over SSE; poll only while the stream is down
   useEffect(() => {
+    if (!roomCode) return;
+
+    let pollInterval: NodeJS.Timeout | null = null;
+    const startPolling = () => {
+      if (!pollInterval) pollInterval = setInterval(fetchState, POLL_INTERVAL);
+    };
+    const stopPolling = () => {
+      if (pollInterval) clearInterval(pollInterval);
+      pollInterval = null;
+    };
+
+    const events = new EventSource(`/api/game/events?room=${roomCode}`);
+    events.onopen = stopPolling;
+    events.onmessage = (e) => applyState(JSON.parse(e.data));
+    events.onerror = () => {
+      startPolling();
+      fetchState();
+    };
+
     fetchState();
-    const interval = setInterval(fetchState, 1000);
-    return () => clearInterval(interval);
-  }, [fetchState]);
+    return () => {
+      events.close();
+      stopPolling();
+    };
+  }, [roomCode, fetchState, applyState]);
 
   useEffect(() => {
     if (state?.phase === 'question') {
@@ -346,90 +621,271 @@ export default function TVPage() {
     }
   }, [state?.phase, state?.currentQuestion]);
 
+  // The server owns the deadline; the TV only renders the countdown
   useEffect(() => {
-    if (state?.phase !== 'question' || !state.questionStartTime) return;
+    if ((state?.phase !== 'question' && state?.phase !== 'tiebreak') || !state.deadline) return;
 
     const updateTimer = () => {
-      const now = Date.now();
-      let elapsedMs = now - state.questionStartTime! - state.pauseAccumulatedMs;
-
-      // If currently paused, subtract the current pause duration
-      if (state.isPaused && state.pausedAt) {
-        elapsedMs -= (now - state.pausedAt);
-      }
-
-      const elapsed = Math.floor(elapsedMs / 1000);
-      const remaining = Math.max(0, questionTime - elapsed);
+      // While paused the clock stands still at the moment the pause began
+      const now = state.isPaused && state.pausedAt ? state.pausedAt : Date.now();
+      const remaining = Math.max(0, Math.ceil((state.deadline! - now) / 1000));
       setTimeLeft(remaining);
-
-      // Only trigger end if not paused
-      if (remaining === 0 && !hasEndedRef.current && !state.isPaused) {
-        hasEndedRef.current = true;
-        triggerRevealSequence();
-      }
     };
 
     updateTimer();
     const interval = setInterval(updateTimer, 100);
     return () => clearInterval(interval);
-  }, [state?.phase, state?.questionStartTime, state?.currentQuestion, state?.isPaused, state?.pausedAt, state?.pauseAccumulatedMs, questionTime]);
+  }, [state?.phase, state?.deadline, state?.isPaused, state?.pausedAt]);
 
+  // The server ends voting (time up or everyone voted); play the reveal once it does
   useEffect(() => {
-    if (
-      state?.phase === 'question' &&
-      state.players.length > 0 &&
-      Object.keys(state.votes).length >= state.players.length &&
-      !hasEndedRef.current &&
-      !state.isPaused
-    ) {
+    if (state?.phase === 'reveal' && state.revealResult && !hasEndedRef.current) {
       hasEndedRef.current = true;
       triggerRevealSequence();
     }
-  }, [state?.phase, state?.votes, state?.players, state?.isPaused]);
+  }, [state?.phase, state?.revealResult]);
 
-  // Auto-close payment modal when checkout is paid
+  // Once paid, fetch the receipt so the buyer can note it down before closing the payment modal
   useEffect(() => {
-    if (state?.checkout?.status === 'paid' && activeModal === 'payment') {
-      setActiveModal('none');
-      setCheckoutUrl('');
-    }
+    if (state?.checkout?.status !== 'paid' || activeModal !== 'payment') return;
+    postGame({ action: 'getReceipt' })
+      .then(res => res.json())
+      .then(data => setReceipt(data.receipt || ''))
+      .catch(() => {});
   }, [state?.checkout?.status, activeModal]);
 
   const triggerRevealSequence = () => {
     setTvOverlay('interstitial');
-    interstitialTimerRef.current = setTimeout(async () => {
+    interstitialTimerRef.current = setTimeout(() => {
       setTvOverlay('none');
-      await endVoting();
+      revealTimerRef.current = setTimeout(() => {
+        nextQuestion();
+      }, REVEAL_HOLD_TIME);
     }, INTERSTITIAL_TIME);
   };
 
-  const updateSettings = async (tone: QuestionTone, couplesSafe: boolean) => {
-    await fetch('/api/game', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action: 'setSettings', tone, couplesSafe }),
-    });
+  // Send only the settings that changed
+  const updateSettings = async (settings: Partial<RoomSettings>) => {
+    await postGame({ action: 'setSettings', ...settings });
     fetchState();
   };
 
   const handleToneChange = (tone: QuestionTone) => {
     setLocalTone(tone);
-    updateSettings(tone, localCouplesSafe);
+    updateSettings({ tone });
+  };
+
+  const handleCouplesSafeChange = (couplesSafe: boolean) => {
+    setLocalCouplesSafe(couplesSafe);
+    updateSettings({ couplesSafe });
+  };
+
+  const handleRoundLengthChange = (roundLength: RoundLength) => {
+    setLocalRoundLength(roundLength);
+    updateSettings({ roundLength });
+  };
+
+  const handleOpenBallotChange = (openBallot: boolean) => {
+    setLocalOpenBallot(openBallot);
+    updateSettings({ openBallot });
+  };
+
+  const handleAllowSelfVoteChange = (allowSelfVote: boolean) => {
+    setLocalAllowSelfVote(allowSelfVote);
+    updateSettings({ allowSelfVote });
+  };
+
+  const handleAllowVoteChangeChange = (allowVoteChange: boolean) => {
+    setLocalAllowVoteChange(allowVoteChange);
+    updateSettings({ allowVoteChange });
+  };
+
+  const handleAllowLateJoinChange = (allowLateJoin: boolean) => {
+    setLocalAllowLateJoin(allowLateJoin);
+    updateSettings({ allowLateJoin });
+  };
+
+  const handlePredictionBonusChange = (predictionBonus: boolean) => {
+    setLocalPredictionBonus(predictionBonus);
+    updateSettings({ predictionBonus });
+  };
+
+  const handleTieBreakChange = (tieBreak: boolean) => {
+    setLocalTieBreak(tieBreak);
+    updateSettings({ tieBreak });
+  };
+
+  const loadPacks = useCallback(async () => {
+    const res = await postGame({ action: 'listPacks' });
+    const data = await res.json();
+    if (data.packs) setPacks(data.packs);
+  }, []);
+
+  useEffect(() => {
+    if (roomCode) loadPacks();
+  }, [roomCode, loadPacks]);
+
+  // The PIN players type on their phone to get their seat back - a new one after every use
+  useEffect(() => {
+    if (!roomCode) return;
+    postGame({ action: 'getRejoinPin' })
+      .then(res => res.json())
+      .then(data => setRejoinPin(data.pin || ''))
+      .catch(() => {});
+  }, [roomCode, state?.rejoinPinVersion]);
+
+  const handlePackToggle = async (packId: string) => {
+    const next = localPackIds.includes(packId)
+      ? localPackIds.filter(id => id !== packId)
+      : [...localPackIds, packId];
+    if (next.length === 0) return;
+    setLocalPackIds(next);
+    await postGame({ action: 'setPacks', packIds: next });
+    fetchState();
+  };
+
+  const openPlayerModeration = (name: string) => {
+    unlockAudio();
+    setModeratedPlayer(name);
+    setRenameValue(name);
+    setModerationError('');
+    setActiveModal('moderatePlayer');
+  };
+
+  const closePlayerModeration = () => {
+    setActiveModal('none');
+    setModeratedPlayer('');
+    setModerationError('');
+  };
+
+  const handleRenamePlayer = async () => {
+    const res = await postGame({ action: 'rename', name: moderatedPlayer, newName: renameValue });
+    const data = await res.json();
+    if (!res.ok) {
+      setModerationError(data.error || 'Kunne ikke endre navnet');
+      return;
+    }
+    closePlayerModeration();
+    fetchState();
+  };
+
+  const handleKickPlayer = async () => {
+    const res = await postGame({ action: 'kick', name: moderatedPlayer });
+    const data = await res.json();
+    if (!res.ok) {
+      setModerationError(data.error || 'Kunne ikke fjerne spilleren');
+      return;
+    }
+    closePlayerModeration();
+    fetchState();
+  };
+
+  const handleLobbyLockToggle = async () => {
+    unlockAudio();
+    await postGame({ action: 'lockLobby', locked: !state?.lobbyLocked });
+    fetchState();
+  };
+
+  const updateTeams = async (teams: Team[]) => {
+    unlockAudio();
+    const res = await postGame({ action: 'setTeams', teams });
+    const data = await res.json();
+    setTeamError(res.ok ? '' : data.error || 'Kunne ikke lagre lagene');
+    fetchState();
+  };
+
+  // The server shuffles the players into even teams, keeping any names already given; 0 plays everyone against everyone
+  const handleTeamCountChange = async (count: number) => {
+    if (!state) return;
+    if (count === 0) {
+      updateTeams([]);
+      return;
+    }
+    unlockAudio();
+    const teamNames = TEAM_NAMES.slice(0, count).map((name, i) => state.teams[i]?.name || name);
+    const res = await postGame({ action: 'shuffleTeams', teamNames });
+    const data = await res.json();
+    setTeamError(res.ok ? '' : data.error || 'Kunne ikke lagre lagene');
+    fetchState();
+  };
+
+  const handleTeamRename = (index: number, name: string) => {
+    if (!state || name.trim() === state.teams[index].name) return;
+    updateTeams(state.teams.map((team, i) => (i === index ? { ...team, name } : team)));
+  };
+
+  const handleMoveToNextTeam = (playerName: string) => {
+    if (!state) return;
+    const from = state.teams.findIndex(team => team.members.includes(playerName));
+    const to = (from + 1) % state.teams.length;
+    updateTeams(state.teams.map((team, i) => ({
+      ...team,
+      members: i === from
+        ? team.members.filter(m => m !== playerName)
+        : i === to ? [...team.members, playerName] : team.members,
+    })));
+  };
+
+  const openPackEditor = (pack?: QuestionPack) => {
+    setPackError('');
+    setPackDraft(pack
+      ? { id: pack.id, name: pack.name, questions: pack.questions.map(q => ({ ...q })) }
+      : { id: null, name: '', questions: [{ ...EMPTY_QUESTION }] });
+    setActiveModal('packEditor');
+  };
+
+  const closePackEditor = () => {
+    setPackDraft(null);
+    setPackError('');
+    setActiveModal('none');
+  };
+
+  const updateDraftQuestion = (index: number, changes: Partial<Question>) => {
+    if (!packDraft) return;
+    setPackDraft({
+      ...packDraft,
+      questions: packDraft.questions.map((q, i) => (i === index ? { ...q, ...changes } : q)),
+    });
+  };
+
+  const handleSavePack = async () => {
+    if (!packDraft) return;
+    const pack = { name: packDraft.name, questions: packDraft.questions };
+    const res = packDraft.id
+      ? await postGame({ action: 'updatePack', packId: packDraft.id, pack })
+      : await postGame({ action: 'createPack', pack });
+    const data = await res.json();
+    if (!res.ok) {
+      setPackError(data.error || 'Kunne ikke lagre pakken');
+      return;
+    }
+    setPacks(data.packs);
+    closePackEditor();
   };
 
-  const handleCouplesSafeChange = (checked: boolean) => {
-    setLocalCouplesSafe(checked);
-    updateSettings(localTone, checked);
+  const handleDeletePack = async () => {
+    if (!packDraft?.id) return;
+    const res = await postGame({ action: 'deletePack', packId: packDraft.id });
+    const data = await res.json();
+    if (!res.ok) {
+      setPackError(data.error || 'Kunne ikke slette pakken');
+      return;
+    }
+    setPacks(data.packs);
+    if (localPackIds.includes(packDraft.id)) {
+      const remaining = localPackIds.filter(id => id !== packDraft.id);
+      const next = remaining.length > 0 ? remaining : ['standard'];
+      setLocalPackIds(next);
+      await postGame({ action: 'setPacks', packIds: next });
+      fetchState();
+    }
+    closePackEditor();
   };
 
   const handleGameModeChange = async (mode: GameMode) => {
     unlockAudio();
     setLocalGameMode(mode);
-    await fetch('/api/game', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action: 'setGameMode', mode }),
-    });
+    await postGame({ action: 'setGameMode', mode });
     fetchState();
 
     if (mode === '18+' && !state?.unlockInfo?.unlocked) {
@@ -437,17 +893,27 @@ export default function TVPage() {
     }
   };
 
+  const handleRestorePurchase = async () => {
+    unlockAudio();
+    setRestoreError('');
+    const res = await postGame({ action: 'restorePurchase', receipt: receiptInput });
+    const data = await res.json();
+    if (!data.success) {
+      setRestoreError(data.error || 'Kunne ikke gjenopprette kjøpet');
+      return;
+    }
+    setReceiptInput('');
+    setActiveModal('none');
+    fetchState();
+  };
+
   const handleCreateCheckout = async () => {
     unlockAudio();
-    const res = await fetch('/api/game', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action: 'createCheckout' }),
-    });
+    const res = await postGame({ action: 'createCheckout' });
     const data = await res.json();
     if (data.success && data.checkoutUrl) {
-      const fullUrl = window.location.origin + data.checkoutUrl;
-      setCheckoutUrl(fullUrl);
+      // The provider may hand back an absolute URL or a path on this site
+      setCheckoutUrl(new URL(data.checkoutUrl, window.location.origin).toString());
       setActiveModal('payment');
     }
     fetchState();
@@ -456,11 +922,7 @@ export default function TVPage() {
   const startGame = async () => {
     unlockAudio();
     setStartError('');
-    const res = await fetch('/api/game', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action: 'start' }),
-    });
+    const res = await postGame({ action: 'start' });
     const data = await res.json();
     if (!res.ok) {
       setStartError(data.error || 'Kunne ikke starte spillet');
@@ -468,34 +930,13 @@ export default function TVPage() {
     fetchState();
   };
 
-  const endVoting = async () => {
-    const res = await fetch('/api/game', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action: 'endVoting' }),
-    });
-    const data = await res.json();
-    if (data.result) {
-      setRevealResult(data.result);
-      revealTimerRef.current = setTimeout(() => {
-        nextQuestion();
-      }, REVEAL_HOLD_TIME);
-    }
-    fetchState();
-  };
-
   const nextQuestion = async () => {
     if (revealTimerRef.current) {
       clearTimeout(revealTimerRef.current);
       revealTimerRef.current = null;
     }
-    setRevealResult(null);
     setTimeLeft(questionTime);
-    await fetch('/api/game', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action: 'nextQuestion' }),
-    });
+    await postGame({ action: 'nextQuestion' });
     fetchState();
   };
 
@@ -505,18 +946,13 @@ export default function TVPage() {
     if (interstitialTimerRef.current) clearTimeout(interstitialTimerRef.current);
     revealTimerRef.current = null;
     interstitialTimerRef.current = null;
-    setRevealResult(null);
     setStartError('');
     setTvOverlay('none');
     setActiveModal('none');
     setCheckoutUrl('');
     hasEndedRef.current = false;
     currentQuestionRef.current = -1;
-    await fetch('/api/game', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action: 'reset' }),
-    });
+    await postGame({ action: 'reset' });
     fetchState();
   };
 
@@ -526,16 +962,11 @@ export default function TVPage() {
     if (interstitialTimerRef.current) clearTimeout(interstitialTimerRef.current);
     revealTimerRef.current = null;
     interstitialTimerRef.current = null;
-    setRevealResult(null);
     setStartError('');
     setTvOverlay('none');
     hasEndedRef.current = false;
     currentQuestionRef.current = -1;
-    await fetch('/api/game', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action: 'resetToLobby' }),
-    });
+    await postGame({ action: 'resetToLobby' });
     fetchState();
   };
 
@@ -549,27 +980,15 @@ export default function TVPage() {
   };
 
   const handleStart18PlusAfterUnlock = async () => {
-    await fetch('/api/game', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action: 'resetToLobby' }),
-    });
-    await fetch('/api/game', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action: 'setGameMode', mode: '18+' }),
-    });
+    await postGame({ action: 'resetToLobby' });
+    await postGame({ action: 'setGameMode', mode: '18+' });
     setLocalGameMode('18+');
     fetchState();
   };
 
   const handlePause = async () => {
     unlockAudio();
-    await fetch('/api/game', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action: 'pause' }),
-    });
+    await postGame({ action: 'pause' });
     // Clear reveal timer if it's running
     if (revealTimerRef.current) {
       clearTimeout(revealTimerRef.current);
@@ -580,20 +999,31 @@ export default function TVPage() {
 
   const handleResume = async () => {
     unlockAudio();
-    await fetch('/api/game', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action: 'resume' }),
-    });
+    await postGame({ action: 'resume' });
     fetchState();
     // If in reveal phase, restart the reveal timer
-    if (state?.phase === 'reveal' && revealResult) {
+    if (state?.phase === 'reveal' && state.revealResult) {
       revealTimerRef.current = setTimeout(() => {
         nextQuestion();
       }, REVEAL_HOLD_TIME);
     }
   };
 
+  const handleEndGame = async () => {
+    unlockAudio();
+    if (revealTimerRef.current) {
+      clearTimeout(revealTimerRef.current);
+      revealTimerRef.current = null;
+    }
+    if (interstitialTimerRef.current) {
+      clearTimeout(interstitialTimerRef.current);
+      interstitialTimerRef.current = null;
+    }
+    setTvOverlay('none');
+    await postGame({ action: 'endGame' });
+    fetchState();
+  };
+
   const handleNextQuestionNow = async () => {
     unlockAudio();
     if (revealTimerRef.current) {
@@ -604,15 +1034,10 @@ export default function TVPage() {
       clearTimeout(interstitialTimerRef.current);
       interstitialTimerRef.current = null;
     }
-    setRevealResult(null);
     setTimeLeft(questionTime);
     setTvOverlay('none');
     hasEndedRef.current = false;
-    await fetch('/api/game', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action: 'nextQuestionNow' }),
-    });
+    await postGame({ action: 'nextQuestionNow' });
     fetchState();
   };
 
@@ -638,9 +1063,24 @@ export default function TVPage() {
     </button>
   );
 
-  if (!state) {
-    return (
-      <TVLayout>
+  const RejoinPinBadge = () => (
+    <div className="fixed bottom-4 left-4 z-50 px-3 py-2 rounded-lg text-sm bg-gray-800/80 text-gray-300">
+      {rejoinPin && (
+        <div>
+          Falt ut? PIN: <span className="font-mono font-bold text-white tracking-widest">{rejoinPin}</span>
+        </div>
+      )}
+      {state && state.waitingPlayers.length > 0 && (
+        <div className="text-xs text-gray-400 mt-1">
+          Med fra neste spørsmål: {state.waitingPlayers.map(p => p.name).join(', ')}
+        </div>
+      )}
+    </div>
+  );
+
+  if (!state) {
+    return (
+      <TVLayout>
         <SoundToggle />
         <p className="text-xl text-gray-300 text-center">Laster...</p>
       </TVLayout>
@@ -668,11 +1108,7 @@ export default function TVPage() {
                   unlockAudio();
                   setActiveModal('none');
                   setLocalGameMode('standard');
-                  fetch('/api/game', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ action: 'setGameMode', mode: 'standard' }),
-                  });
+                  postGame({ action: 'setGameMode', mode: 'standard' });
                 }}
                 className="flex-1 bg-gray-700 hover:bg-gray-600 text-white font-semibold py-3 rounded-xl transition-colors"
               >
@@ -685,6 +1121,30 @@ export default function TVPage() {
                 Lås opp 18+
               </button>
             </div>
+
+            {/* Restore a purchase made on another TV */}
+            <div className="mt-6 pt-4 border-t border-white/10">
+              <p className="text-gray-400 text-sm mb-2 text-center">Allerede kjøpt på en annen TV?</p>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={receiptInput}
+                  onChange={(e) => setReceiptInput(e.target.value.toUpperCase())}
+                  placeholder="Kvitteringskode"
+                  className="flex-1 bg-black/40 border border-white/20 rounded-xl px-3 py-2 text-white placeholder-gray-500 font-mono tracking-wider"
+                />
+                <button
+                  onClick={handleRestorePurchase}
+                  disabled={!receiptInput.trim()}
+                  className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white font-semibold px-4 py-2 rounded-xl transition-colors"
+                >
+                  Gjenopprett
+                </button>
+              </div>
+              {restoreError && (
+                <p className="text-red-400 text-sm mt-2 text-center">{restoreError}</p>
+              )}
+            </div>
           </div>
         </div>
       );
@@ -729,6 +1189,12 @@ export default function TVPage() {
                 <p className="text-gray-300 text-sm">
                   18+ er låst opp i 24 timer (til kl. {formatExpiryTime(state?.unlockInfo?.until ?? null)})
                 </p>
+                {receipt && (
+                  <div className="mt-4">
+                    <p className="text-gray-400 text-xs mb-1">Kvittering - bruk den for å låse opp på en annen TV:</p>
+                    <p className="text-white text-2xl font-mono font-bold tracking-widest">{receipt}</p>
+                  </div>
+                )}
               </div>
             )}
 
@@ -744,13 +1210,10 @@ export default function TVPage() {
                 unlockAudio();
                 setActiveModal('none');
                 setCheckoutUrl('');
+                setReceipt('');
                 if (!state?.unlockInfo?.unlocked) {
                   setLocalGameMode('standard');
-                  fetch('/api/game', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ action: 'setGameMode', mode: 'standard' }),
-                  });
+                  postGame({ action: 'setGameMode', mode: 'standard' });
                 }
               }}
               className="w-full bg-gray-700 hover:bg-gray-600 text-white font-semibold py-3 rounded-xl transition-colors"
@@ -762,6 +1225,175 @@ export default function TVPage() {
       );
     }
 
+    if (activeModal === 'moderatePlayer' && moderatedPlayer) {
+      return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+          <div className="bg-gray-900 rounded-2xl p-6 max-w-md w-full border border-white/20 shadow-2xl">
+            <h2 className="text-2xl font-bold text-white mb-4 text-center">👤 {moderatedPlayer}</h2>
+
+            <p className="text-gray-400 text-sm mb-2">Nytt navn</p>
+            <div className="flex gap-2 mb-4">
+              <input
+                type="text"
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+                maxLength={state.maxNameLength ?? MAX_NAME_LENGTH}
+                className="flex-1 bg-black/40 border border-white/20 rounded-xl px-3 py-2 text-white"
+              />
+              <button
+                onClick={handleRenamePlayer}
+                disabled={!renameValue.trim() || renameValue.trim() === moderatedPlayer}
+                className="bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white font-semibold px-4 py-2 rounded-xl transition-colors"
+              >
+                Lagre
+              </button>
+            </div>
+
+            {moderationError && (
+              <p className="text-red-400 text-sm mb-4 text-center">{moderationError}</p>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={closePlayerModeration}
+                className="flex-1 bg-gray-700 hover:bg-gray-600 text-white font-semibold py-3 rounded-xl transition-colors"
+              >
+                Lukk
+              </button>
+              <button
+                onClick={handleKickPlayer}
+                className="flex-1 bg-red-700 hover:bg-red-800 text-white font-semibold py-3 rounded-xl transition-colors"
+              >
+                Fjern fra spillet
+              </button>
+            </div>
+          </div>
+        </div>
+      );
+    }
+
+    if (activeModal === 'packEditor' && packDraft) {
+      return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+          <div className="bg-gray-900 rounded-2xl p-6 max-w-2xl w-full border border-white/20 shadow-2xl max-h-[90vh] flex flex-col">
+            <h2 className="text-2xl font-bold text-white mb-4 text-center">
+              {packDraft.id ? '✏️ Rediger pakke' : '📦 Ny spørsmålspakke'}
+            </h2>
+
+            <input
+              type="text"
+              value={packDraft.name}
+              onChange={(e) => setPackDraft({ ...packDraft, name: e.target.value })}
+              placeholder="Navn, f.eks. Julebord"
+              maxLength={40}
+              className="w-full p-3 rounded-xl bg-gray-800 border border-gray-700 focus:border-purple-500 focus:outline-none text-white mb-4"
+            />
+
+            <div className="flex-1 overflow-y-auto flex flex-col gap-2 mb-3 pr-1">
+              {packDraft.questions.map((q, idx) => (
+                <div key={idx} className="flex flex-col gap-1">
+                  <div className="flex gap-2 items-center">
+                    <select
+                      value={q.kind || 'most-likely'}
+                      onChange={(e) => {
+                        const kind = e.target.value as QuestionKind;
+                        updateDraftQuestion(idx, { kind, options: kind === 'would-you-rather' ? q.options || ['', ''] : undefined });
+                      }}
+                      className="p-2 rounded-lg bg-gray-800 border border-gray-700 text-white text-sm"
+                    >
+                      <option value="most-likely">Hvem</option>
+                      <option value="would-you-rather">Heller</option>
+                      <option value="rank">Topp 3</option>
+                    </select>
+                    <input
+                      type="text"
+                      value={q.text}
+                      onChange={(e) => updateDraftQuestion(idx, { text: e.target.value })}
+                      placeholder={q.kind === 'would-you-rather' ? 'Heller ... eller ...?' : 'Hvem er mest sannsynlig til å...'}
+                      maxLength={200}
+                      className="flex-1 p-2 rounded-lg bg-gray-800 border border-gray-700 focus:border-purple-500 focus:outline-none text-white text-sm"
+                    />
+                    <select
+                      value={q.tone}
+                      onChange={(e) => updateDraftQuestion(idx, { tone: e.target.value as QuestionTone })}
+                      className="p-2 rounded-lg bg-gray-800 border border-gray-700 text-white text-sm"
+                    >
+                      <option value="mild">😇</option>
+                      <option value="spicy">🌶️</option>
+                      <option value="drøy">🔥</option>
+                    </select>
+                    <select
+                      value={q.risk}
+                      onChange={(e) => updateDraftQuestion(idx, { risk: e.target.value as QuestionRisk })}
+                      className="p-2 rounded-lg bg-gray-800 border border-gray-700 text-white text-sm"
+                    >
+                      <option value="safe">Trygg</option>
+                      <option value="relationship-risk">💕 Par-risiko</option>
+                    </select>
+                    <button
+                      onClick={() => setPackDraft({ ...packDraft, questions: packDraft.questions.filter((_, i) => i !== idx) })}
+                      className="text-gray-500 hover:text-red-400 px-2"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                  {q.kind === 'would-you-rather' && (
+                    <div className="flex gap-2 pl-20 pr-8">
+                      {[0, 1].map(optionIndex => (
+                        <input
+                          key={optionIndex}
+                          type="text"
+                          value={q.options?.[optionIndex] || ''}
+                          onChange={(e) => updateDraftQuestion(idx, {
+                            options: [0, 1].map(i => (i === optionIndex ? e.target.value : q.options?.[i] || '')),
+                          })}
+                          placeholder={`Alternativ ${optionIndex + 1}`}
+                          maxLength={60}
+                          className="flex-1 p-2 rounded-lg bg-gray-800 border border-gray-700 focus:border-purple-500 focus:outline-none text-white text-sm"
+                        />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <button
+              onClick={() => setPackDraft({ ...packDraft, questions: [...packDraft.questions, { ...EMPTY_QUESTION }] })}
+              className="w-full bg-white/5 hover:bg-white/10 text-gray-300 text-sm py-2 rounded-lg transition-colors mb-4"
+            >
+              + Legg til spørsmål
+            </button>
+
+            {packError && <p className="text-red-400 text-sm mb-3 text-center">{packError}</p>}
+
+            <div className="flex gap-3">
+              <button
+                onClick={closePackEditor}
+                className="flex-1 bg-gray-700 hover:bg-gray-600 text-white font-semibold py-3 rounded-xl transition-colors"
+              >
+                Avbryt
+              </button>
+              {packDraft.id && (
+                <button
+                  onClick={handleDeletePack}
+                  className="flex-1 bg-red-700 hover:bg-red-800 text-white font-semibold py-3 rounded-xl transition-colors"
+                >
+                  Slett
+                </button>
+              )}
+              <button
+                onClick={handleSavePack}
+                className="flex-1 bg-purple-600 hover:bg-purple-700 text-white font-semibold py-3 rounded-xl transition-colors"
+              >
+                Lagre
+              </button>
+            </div>
+          </div>
+        </div>
+      );
+    }
+
     return null;
   };
 
@@ -803,6 +1435,7 @@ export default function TVPage() {
     return (
       <>
         <SoundToggle />
+        <RejoinPinBadge />
         {renderModal()}
         <TVLayout wide>
           <h1
@@ -821,6 +1454,7 @@ export default function TVPage() {
                 </div>
               )}
               <p className="text-base font-semibold text-white mb-1 text-center">📱 Skann for å bli med</p>
+              <p className="text-3xl font-bold font-mono text-white tracking-[0.3em] mb-1 text-center">{roomCode}</p>
               <p className="text-xs text-purple-300 text-center mb-2">Én betaler – alle spiller</p>
               <p className="text-xs font-mono text-blue-400 text-center break-all max-w-[160px] opacity-75">
                 {joinUrl || '/play'}
@@ -828,9 +1462,21 @@ export default function TVPage() {
             </div>
 
             <div className="flex-1">
-              <h2 className="text-lg font-semibold mb-2 text-center text-white">
-                Spillere ({playerCount}/{maxPlayers})
-              </h2>
+              <div className="flex items-center justify-center gap-3 mb-2">
+                <h2 className="text-lg font-semibold text-center text-white">
+                  Spillere ({playerCount}/{maxPlayers})
+                </h2>
+                <button
+                  onClick={handleLobbyLockToggle}
+                  className={`px-2 py-1 rounded-md text-xs transition-colors ${
+                    state.lobbyLocked
+                      ? 'bg-red-600/80 text-white'
+                      : 'bg-white/5 text-gray-400 hover:bg-white/10'
+                  }`}
+                >
+                  {state.lobbyLocked ? '🔒 Låst' : '🔓 Åpen'}
+                </button>
+              </div>
               <div
                 className="grid gap-2"
                 style={{
@@ -853,10 +1499,15 @@ export default function TVPage() {
                       }`}
                     >
                       {player ? (
-                        <>
+                        <button
+                          onClick={() => openPlayerModeration(player.name)}
+                          title="Endre navn eller fjern"
+                          className="flex items-center gap-1 w-full min-w-0 text-left"
+                        >
                           <span className="text-xl">{getAvatarIcon(player.avatarId)}</span>
                           <span className="text-sm text-white font-medium truncate">{player.name}</span>
-                        </>
+                          <span className="ml-auto text-xs text-gray-400">⋯</span>
+                        </button>
                       ) : (
                         <span className={`text-xs w-full text-center ${isFirstEmpty ? 'text-purple-300' : 'text-gray-600'}`}>
                           {isFirstEmpty ? '👆' : ''}
@@ -866,6 +1517,21 @@ export default function TVPage() {
                   );
                 })}
               </div>
+              {state.spectators.length > 0 && (
+                <div className="flex flex-wrap items-center justify-center gap-1 mt-2">
+                  <span className="text-xs text-gray-400">👀 Ser på:</span>
+                  {state.spectators.map(spectator => (
+                    <button
+                      key={spectator.name}
+                      onClick={() => openPlayerModeration(spectator.name)}
+                      title="Endre navn eller fjern"
+                      className="px-2 py-0.5 rounded-md text-xs bg-white/5 text-gray-300 hover:bg-white/10"
+                    >
+                      {getAvatarIcon(spectator.avatarId)} {spectator.name}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
 
@@ -952,6 +1618,186 @@ export default function TVPage() {
             </div>
           )}
 
+          {/* Round length */}
+          <div className="flex justify-center items-center gap-2 mb-3 opacity-70 hover:opacity-100 transition-opacity">
+            <span className="text-gray-400 text-xs uppercase tracking-wide">Spørsmål</span>
+            <div className="flex gap-1">
+              {ROUND_LENGTHS.map((length) => (
+                <button
+                  key={length}
+                  onClick={() => handleRoundLengthChange(length)}
+                  className={`px-2 py-1 rounded-md text-sm transition-colors ${
+                    localRoundLength === length
+                      ? 'bg-purple-600/80 text-white'
+                      : 'bg-white/5 text-gray-400 hover:bg-white/10'
+                  }`}
+                >
+                  {length === 'endless' ? '∞' : length}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Ballot mode */}
+          <div className="flex justify-center items-center gap-2 mb-3 opacity-70 hover:opacity-100 transition-opacity">
+            <span className="text-gray-400 text-xs uppercase tracking-wide">Stemmer</span>
+            <div className="flex gap-1">
+              {[false, true].map((open) => (
+                <button
+                  key={String(open)}
+                  onClick={() => handleOpenBallotChange(open)}
+                  className={`px-2 py-1 rounded-md text-sm transition-colors ${
+                    localOpenBallot === open
+                      ? 'bg-purple-600/80 text-white'
+                      : 'bg-white/5 text-gray-400 hover:bg-white/10'
+                  }`}
+                >
+                  {open ? '👀 Åpne' : '🙈 Anonyme'}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => handleAllowSelfVoteChange(!localAllowSelfVote)}
+              className={`ml-2 px-2 py-1 rounded-md text-sm transition-colors ${
+                localAllowSelfVote
+                  ? 'bg-purple-600/80 text-white'
+                  : 'bg-white/5 text-gray-400 hover:bg-white/10'
+              }`}
+            >
+              {localAllowSelfVote ? '🙋 Kan stemme på seg selv' : '🚫 Ikke på seg selv'}
+            </button>
+            <button
+              onClick={() => handleAllowVoteChangeChange(!localAllowVoteChange)}
+              className={`px-2 py-1 rounded-md text-sm transition-colors ${
+                localAllowVoteChange
+                  ? 'bg-purple-600/80 text-white'
+                  : 'bg-white/5 text-gray-400 hover:bg-white/10'
+              }`}
+            >
+              {localAllowVoteChange ? '🔄 Kan endre stemme' : '🔒 Endelig stemme'}
+            </button>
+            <button
+              onClick={() => handleAllowLateJoinChange(!localAllowLateJoin)}
+              className={`px-2 py-1 rounded-md text-sm transition-colors ${
+                localAllowLateJoin
+                  ? 'bg-purple-600/80 text-white'
+                  : 'bg-white/5 text-gray-400 hover:bg-white/10'
+              }`}
+            >
+              {localAllowLateJoin ? '🚪 Sene kan bli med' : '🚪 Stengt etter start'}
+            </button>
+            <button
+              onClick={() => handlePredictionBonusChange(!localPredictionBonus)}
+              className={`px-2 py-1 rounded-md text-sm transition-colors ${
+                localPredictionBonus
+                  ? 'bg-purple-600/80 text-white'
+                  : 'bg-white/5 text-gray-400 hover:bg-white/10'
+              }`}
+            >
+              {localPredictionBonus ? '🔮 Tipp vinneren' : '🔮 Ingen tipping'}
+            </button>
+            <button
+              onClick={() => handleTieBreakChange(!localTieBreak)}
+              className={`px-2 py-1 rounded-md text-sm transition-colors ${
+                localTieBreak
+                  ? 'bg-purple-600/80 text-white'
+                  : 'bg-white/5 text-gray-400 hover:bg-white/10'
+              }`}
+            >
+              {localTieBreak ? '⚔️ Omkamp ved likt' : '🎲 Trekning ved likt'}
+            </button>
+          </div>
+
+          {/* Teams */}
+          <div className="flex flex-wrap justify-center items-center gap-2 mb-3 opacity-70 hover:opacity-100 transition-opacity">
+            <span className="text-gray-400 text-xs uppercase tracking-wide">Lag</span>
+            {[0, 2, 3, 4].map(count => (
+              <button
+                key={count}
+                onClick={() => handleTeamCountChange(count)}
+                className={`px-2 py-1 rounded-md text-sm transition-colors ${
+                  state.teams.length === count
+                    ? 'bg-purple-600/80 text-white'
+                    : 'bg-white/5 text-gray-400 hover:bg-white/10'
+                }`}
+              >
+                {count === 0 ? 'Alle mot alle' : `${count} lag`}
+              </button>
+            ))}
+            {state.teams.length > 0 && (
+              <button
+                onClick={() => handleTeamCountChange(state.teams.length)}
+                className="px-2 py-1 rounded-md text-sm bg-white/5 text-gray-400 hover:bg-white/10 transition-colors"
+              >
+                🔀 Bland
+              </button>
+            )}
+          </div>
+          {state.teams.length > 0 && (
+            <div
+              className="grid gap-2 mb-3"
+              style={{ gridTemplateColumns: `repeat(${state.teams.length}, minmax(0, 1fr))` }}
+            >
+              {state.teams.map((team, teamIndex) => (
+                <div key={teamIndex} className={`rounded-xl p-2 border ${TEAM_COLORS[teamIndex]}`}>
+                  <input
+                    key={team.name}
+                    defaultValue={team.name}
+                    onBlur={(e) => handleTeamRename(teamIndex, e.target.value)}
+                    maxLength={state.maxNameLength ?? MAX_NAME_LENGTH}
+                    className="w-full bg-transparent text-sm font-semibold text-white text-center mb-1 focus:outline-none"
+                  />
+                  <div className="flex flex-wrap justify-center gap-1">
+                    {team.members.map(member => (
+                      <button
+                        key={member}
+                        onClick={() => handleMoveToNextTeam(member)}
+                        title="Flytt til neste lag"
+                        className="px-2 py-0.5 rounded-md text-xs bg-white/10 text-white hover:bg-white/20"
+                      >
+                        {getAvatarIcon(state.players.find(p => p.name === member)?.avatarId || '')} {member}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {teamError && <p className="text-red-400 text-xs text-center mb-3">{teamError}</p>}
+
+          {/* Question packs (only for standard) */}
+          {localGameMode === 'standard' && (
+            <div className="flex flex-wrap justify-center items-center gap-2 mb-3 opacity-70 hover:opacity-100 transition-opacity">
+              <span className="text-gray-400 text-xs uppercase tracking-wide">Pakker</span>
+              {packs.map((pack) => {
+                const selected = localPackIds.includes(pack.id);
+                return (
+                  <div
+                    key={pack.id}
+                    className={`flex items-center rounded-md text-sm transition-colors ${
+                      selected ? 'bg-purple-600/80 text-white' : 'bg-white/5 text-gray-400 hover:bg-white/10'
+                    }`}
+                  >
+                    <button onClick={() => handlePackToggle(pack.id)} className="px-2 py-1">
+                      {pack.name} <span className="text-xs opacity-70">({pack.questions.length})</span>
+                    </button>
+                    {!pack.builtIn && (
+                      <button onClick={() => openPackEditor(pack)} className="pr-2 py-1 text-xs opacity-70 hover:opacity-100">
+                        ✏️
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+              <button
+                onClick={() => openPackEditor()}
+                className="px-2 py-1 rounded-md text-sm bg-white/5 text-gray-400 hover:bg-white/10 transition-colors"
+              >
+                + Ny pakke
+              </button>
+            </div>
+          )}
+
           {/* 18+ not unlocked warning */}
           {localGameMode === '18+' && !state.unlockInfo?.unlocked && (
             <div className="bg-yellow-900/30 border border-yellow-500/50 rounded-xl p-3 mb-3 text-center">
@@ -993,14 +1839,17 @@ export default function TVPage() {
     );
   }
 
-  // QUESTION SCREEN
-  if (state.phase === 'question') {
+  // QUESTION SCREEN - also the revote after a tie
+  if (state.phase === 'question' || state.phase === 'tiebreak') {
     const currentQ = state.selectedQuestions[state.currentQuestion];
-    const voteCount = Object.keys(state.votes).length;
+    const format = state.questionFormats?.[state.currentQuestion];
+    const voteCount = state.votesCast;
+    const isTieBreak = state.phase === 'tiebreak';
 
     return (
       <TVLayout>
         <SoundToggle />
+        <RejoinPinBadge />
         {/* Pause overlay */}
         {state.isPaused && (
           <div className="absolute inset-0 bg-black/60 flex items-center justify-center z-40 rounded-2xl">
@@ -1016,7 +1865,7 @@ export default function TVPage() {
         <div className="flex justify-between items-center mb-4">
           <span className="text-lg text-gray-300">
             {state.gameMode === '18+' && <span className="text-pink-400">🔞 </span>}
-            {state.currentQuestion + 1} / 20
+            {formatQuestionProgress(state)}
           </span>
           <span
             className={`text-5xl font-bold ${state.isPaused ? 'text-yellow-400' : timeLeft <= 5 ? 'text-red-500' : 'text-white'}`}
@@ -1033,8 +1882,34 @@ export default function TVPage() {
           {currentQ}
         </h1>
 
+        {isTieBreak && (
+          <div className="text-center mb-6">
+            <p className="text-3xl font-bold text-orange-400 mb-2">⚔️ Uavgjort! Omkamp</p>
+            <div className="flex flex-wrap justify-center gap-3">
+              {state.tiedCandidates.map(name => (
+                <span key={name} className="px-4 py-2 rounded-xl bg-orange-500/20 border border-orange-400/60 text-xl font-bold text-white">
+                  {state.teams.length > 0 ? '' : `${getAvatarIcon(state.players.find(p => p.name === name)?.avatarId || '')} `}{name}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {format?.kind === 'would-you-rather' && format.options && (
+          <div className="flex justify-center items-center gap-4 mb-6">
+            <span className="px-4 py-2 rounded-xl bg-white/10 border border-white/20 text-2xl font-bold text-white">{format.options[0]}</span>
+            <span className="text-gray-400 text-xl">eller</span>
+            <span className="px-4 py-2 rounded-xl bg-white/10 border border-white/20 text-2xl font-bold text-white">{format.options[1]}</span>
+          </div>
+        )}
+        {format?.kind === 'rank' && (
+          <p className="text-lg text-purple-300 text-center mb-6">🏅 Ranger topp {state.rankSize} på mobilen</p>
+        )}
+
         <p className="text-xl text-gray-300 text-center mb-6">
           {voteCount} / {state.players.length} har stemt
+          {state.audienceVotesCast > 0 && ` · ${state.audienceVotesCast} fra publikum`}
+          {!isTieBreak && state.predictionsCast > 0 && ` · ${state.predictionsCast} har tippet`}
         </p>
 
         {/* Host controls */}
@@ -1055,20 +1930,34 @@ export default function TVPage() {
           >
             ⏭️ Neste spørsmål
           </button>
+          {state.roundLength === 'endless' && (
+            <button
+              onClick={handleEndGame}
+              className="bg-red-700 hover:bg-red-800 text-white px-6 py-3 rounded-xl font-bold text-lg transition-colors"
+            >
+              ⏹️ Avslutt
+            </button>
+          )}
         </div>
       </TVLayout>
     );
   }
 
   // REVEAL SCREEN
-  if (state.phase === 'reveal' && revealResult) {
-    const rerollInfo = revealResult.rerollInfo || state.rerollInfo;
+  if (state.phase === 'reveal' && state.revealResult) {
+    const revealResult = state.revealResult;
+    const rerollInfo = revealResult.kind === 'most-likely' ? revealResult.rerollInfo || state.rerollInfo : null;
     const isLargeGroup = state.groupSize === 'large';
-    const condensed = revealResult.condensedResults;
+    const condensed = revealResult.kind === 'most-likely' ? revealResult.condensedResults : undefined;
+    // The person, team or option that came out on top, for highlighting ballots
+    const leadingChoice = revealResult.kind === 'would-you-rather'
+      ? [...revealResult.options].sort((a, b) => b.votes - a.votes)[0]?.text
+      : revealResult.winner;
 
     return (
       <TVLayout>
         <SoundToggle />
+        <RejoinPinBadge />
         {/* Pause overlay */}
         {state.isPaused && (
           <div className="absolute inset-0 bg-black/60 flex items-center justify-center z-40 rounded-2xl">
@@ -1081,76 +1970,184 @@ export default function TVPage() {
           </div>
         )}
 
-        <h2 className="text-xl text-gray-300 mb-2 text-center">Mest sannsynlig:</h2>
+        {revealResult.kind === 'would-you-rather' ? (
+          <>
+            <h2 className="text-2xl md:text-3xl font-bold text-white mb-4 text-center">{state.selectedQuestions[state.currentQuestion]}</h2>
+            <div className="flex justify-center gap-4 mb-4">
+              {revealResult.options.map(option => (
+                <div
+                  key={option.text}
+                  className={`flex-1 max-w-xs rounded-2xl p-4 text-center ${
+                    option.text === leadingChoice
+                      ? 'bg-yellow-600/30 border-2 border-yellow-500'
+                      : 'bg-white/10 border border-white/20'
+                  }`}
+                >
+                  <p className="text-2xl font-bold text-white mb-1">{option.text}</p>
+                  <p className="text-5xl font-bold text-yellow-400">{option.percentage}%</p>
+                  <p className="text-gray-300 text-sm">{option.votes} stemmer</p>
+                </div>
+              ))}
+            </div>
+          </>
+        ) : (
+          <>
+            <h2 className="text-xl text-gray-300 mb-2 text-center">{revealResult.kind === 'rank' ? 'Øverst på lista:' : 'Mest sannsynlig:'}</h2>
 
-        <div className="text-7xl mb-2 text-center">
-          {getAvatarIcon(revealResult.winnerAvatarId)}
-        </div>
+            <div className="text-7xl mb-2 text-center">
+              {revealResult.winnerMembers
+                ? revealResult.winnerMembers.map(name => getAvatarIcon(state.players.find(p => p.name === name)?.avatarId || '')).join('')
+                : getAvatarIcon(revealResult.winnerAvatarId)}
+            </div>
 
-        <h1
-          className="text-4xl md:text-6xl font-bold text-yellow-400 mb-1 text-center"
-          style={{ textShadow: '0 2px 10px rgba(0,0,0,0.5)' }}
-        >
-          {revealResult.winner}
-        </h1>
+            <h1
+              className="text-4xl md:text-6xl font-bold text-yellow-400 mb-1 text-center"
+              style={{ textShadow: '0 2px 10px rgba(0,0,0,0.5)' }}
+            >
+              {revealResult.winner}
+            </h1>
+            {revealResult.winnerMembers && (
+              <p className="text-gray-300 text-sm mb-1 text-center">{revealResult.winnerMembers.join(', ')}</p>
+            )}
 
-        {rerollInfo && (
-          <p className="text-gray-400 text-sm mb-2 text-center">
-            {rerollInfo.reason === 'cooldown' ? '(Variasjon aktivert)' : '(Fordeler seg litt 😅)'}
-          </p>
-        )}
+            {revealResult.kind === 'rank' ? (
+              <div className="flex flex-wrap justify-center gap-2 mb-4">
+                {revealResult.ranking
+                  .filter(entry => entry.points > 0)
+                  .map((entry, idx) => (
+                    <div
+                      key={entry.name}
+                      className={`px-3 py-2 rounded-lg text-sm flex items-center gap-1 ${
+                        idx === 0 ? 'bg-yellow-600' : 'bg-white/10 border border-white/20'
+                      }`}
+                    >
+                      <span>{idx < 3 ? ['🥇', '🥈', '🥉'][idx] : `${idx + 1}.`}</span>
+                      {!revealResult.winnerMembers && (
+                        <span className="text-lg">{getAvatarIcon(state.players.find(p => p.name === entry.name)?.avatarId || '')}</span>
+                      )}
+                      <span className="text-white">{entry.name}</span>
+                      <span className="text-gray-300 text-xs">{entry.points} poeng</span>
+                    </div>
+                  ))}
+              </div>
+            ) : (
+              <>
+              {rerollInfo && (
+                <p className="text-gray-400 text-sm mb-2 text-center">
+                  {rerollInfo.reason === 'cooldown' ? '(Variasjon aktivert)' : '(Fordeler seg litt 😅)'}
+                </p>
+              )}
 
-        <p className="text-2xl text-gray-200 mb-4 text-center">
-          {revealResult.percentage}% av stemmene
-        </p>
+              <p className="text-2xl text-gray-200 mb-4 text-center">
+                {revealResult.percentage}% av stemmene
+              </p>
 
-        {/* Vote results - condensed for large groups */}
-        {isLargeGroup && condensed ? (
-          <div className="flex flex-wrap justify-center gap-2 mb-4">
-            {condensed.top3.map((entry, idx) => (
-              <div
-                key={entry.name}
-                className={`px-3 py-2 rounded-lg text-sm flex items-center gap-1 ${
-                  idx === 0
-                    ? 'bg-yellow-600'
-                    : 'bg-white/10 border border-white/20'
-                }`}
-              >
-                <span className="text-lg">{getAvatarIcon(entry.avatarId)}</span>
-                <span className="text-white">{entry.name}: {entry.votes}</span>
-                <span className="text-gray-400 text-xs">({entry.percentage}%)</span>
-              </div>
-            ))}
-            {condensed.othersVotes > 0 && (
-              <div className="px-3 py-2 rounded-lg text-sm flex items-center gap-1 bg-white/5 border border-white/10">
-                <span className="text-gray-400">Andre: {condensed.othersVotes}</span>
-                <span className="text-gray-500 text-xs">({condensed.othersPercentage}%)</span>
-              </div>
+              {revealResult.tieBreak && (
+                <p className="text-orange-300 text-sm mb-3 text-center">
+                  ⚔️ Avgjort i omkamp:{' '}
+                  {revealResult.tieBreak.candidates
+                    .map(name => `${name} ${revealResult.tieBreak!.voteCount[name] || 0}`)
+                    .join(' – ')}
+                </p>
+              )}
+
+              {/* Vote results - condensed for large groups */}
+              {isLargeGroup && condensed ? (
+                <div className="flex flex-wrap justify-center gap-2 mb-4">
+                  {condensed.top3.map((entry, idx) => (
+                    <div
+                      key={entry.name}
+                      className={`px-3 py-2 rounded-lg text-sm flex items-center gap-1 ${
+                        idx === 0
+                          ? 'bg-yellow-600'
+                          : 'bg-white/10 border border-white/20'
+                      }`}
+                    >
+                      <span className="text-lg">{getAvatarIcon(entry.avatarId)}</span>
+                      <span className="text-white">{entry.name}: {entry.votes}</span>
+                      <span className="text-gray-400 text-xs">({entry.percentage}%)</span>
+                    </div>
+                  ))}
+                  {condensed.othersVotes > 0 && (
+                    <div className="px-3 py-2 rounded-lg text-sm flex items-center gap-1 bg-white/5 border border-white/10">
+                      <span className="text-gray-400">Andre: {condensed.othersVotes}</span>
+                      <span className="text-gray-500 text-xs">({condensed.othersPercentage}%)</span>
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="flex flex-wrap justify-center gap-2 mb-4">
+                  {Object.entries(revealResult.voteCount)
+                    .sort((a, b) => b[1] - a[1])
+                    .map(([playerName, count]) => {
+                      const player = state.players.find(p => p.name === playerName);
+                      return (
+                        <div
+                          key={playerName}
+                          className={`px-3 py-2 rounded-lg text-sm flex items-center gap-1 ${
+                            playerName === revealResult.winner
+                              ? 'bg-yellow-600'
+                              : 'bg-white/10 border border-white/20'
+                          }`}
+                        >
+                          {!revealResult.winnerMembers && <span className="text-lg">{getAvatarIcon(player?.avatarId || '')}</span>}
+                          <span className="text-white">{playerName}: {count}</span>
+                        </div>
+                      );
+                    })}
+                </div>
+              )}
+              </>
             )}
+          </>
+        )}
+
+        {/* Open ballot - who voted for whom, winner's voters first */}
+        {revealResult.ballots && revealResult.ballots.length > 0 && (
+          <div className="flex flex-wrap justify-center gap-2 mb-4 max-w-3xl mx-auto">
+            {[...revealResult.ballots]
+              .sort((a, b) => Number(b.target === leadingChoice) - Number(a.target === leadingChoice))
+              .map((ballot, idx) => (
+                <div
+                  key={ballot.voter}
+                  className={`px-2 py-1 rounded-md text-xs flex items-center gap-1 animate-arrow-in ${
+                    ballot.target === leadingChoice
+                      ? 'bg-yellow-600/30 border border-yellow-500/60 text-yellow-100'
+                      : 'bg-white/5 border border-white/10 text-gray-300'
+                  }`}
+                  style={{ animationDelay: `${idx * 150}ms` }}
+                >
+                  <span>{ballot.voter}</span>
+                  <span className="text-gray-400">➜</span>
+                  <span className="font-semibold">{ballot.target}</span>
+                </div>
+              ))}
           </div>
-        ) : (
-          <div className="flex flex-wrap justify-center gap-2 mb-4">
-            {Object.entries(revealResult.voteCount)
+        )}
+
+        {/* Audience votes - shown apart, they never decide the winner */}
+        {revealResult.audience && (
+          <div className="flex flex-wrap items-center justify-center gap-2 mb-4 max-w-3xl mx-auto">
+            <span className="text-xs text-gray-400">👀 Publikum ({revealResult.audience.total}):</span>
+            {Object.entries(revealResult.audience.voteCount)
+              .filter(([, count]) => count > 0)
               .sort((a, b) => b[1] - a[1])
-              .map(([playerName, count]) => {
-                const player = state.players.find(p => p.name === playerName);
-                return (
-                  <div
-                    key={playerName}
-                    className={`px-3 py-2 rounded-lg text-sm flex items-center gap-1 ${
-                      playerName === revealResult.winner
-                        ? 'bg-yellow-600'
-                        : 'bg-white/10 border border-white/20'
-                    }`}
-                  >
-                    <span className="text-lg">{getAvatarIcon(player?.avatarId || '')}</span>
-                    <span className="text-white">{playerName}: {count}</span>
-                  </div>
-                );
-              })}
+              .map(([playerName, count]) => (
+                <span key={playerName} className="px-2 py-1 rounded-md text-xs bg-white/5 border border-white/10 text-gray-300">
+                  {playerName}: {count}
+                </span>
+              ))}
           </div>
         )}
 
+        {/* Prediction bonus - who saw the winner coming */}
+        {revealResult.kind !== 'would-you-rather' && revealResult.predictions && (
+          <p className="text-sm text-purple-200 text-center mb-4">
+            🔮 {revealResult.predictions.correct.length} av {revealResult.predictions.total} tippet riktig
+            {revealResult.predictions.correct.length > 0 && `: ${revealResult.predictions.correct.join(', ')}`}
+          </p>
+        )}
+
         <p className="text-gray-500 text-center text-xs mb-4">
           {state.isPaused ? 'Spillet er pauset' : 'Neste spørsmål kommer automatisk...'}
         </p>
@@ -1173,6 +2170,14 @@ export default function TVPage() {
           >
             ⏭️ Neste spørsmål
           </button>
+          {state.roundLength === 'endless' && (
+            <button
+              onClick={handleEndGame}
+              className="bg-red-700 hover:bg-red-800 text-white px-6 py-3 rounded-xl font-bold text-lg transition-colors"
+            >
+              ⏹️ Avslutt
+            </button>
+          )}
         </div>
       </TVLayout>
     );
@@ -1194,8 +2199,38 @@ export default function TVPage() {
             🏆 Kveldens Priser 🏆
           </h1>
 
+          {finale?.teamStandings && (
+            <div className="mb-4">
+              <div className="flex justify-center gap-2 mb-2">
+                {finale.teamStandings.map((team, idx) => (
+                  <div
+                    key={team.name}
+                    className={`px-3 py-2 rounded-lg text-center ${
+                      idx === 0 ? 'bg-yellow-600/30 border border-yellow-500' : 'bg-white/10 border border-white/20'
+                    }`}
+                  >
+                    <p className="text-sm font-bold text-white">{idx === 0 ? '🏆 ' : ''}{team.name}</p>
+                    <p className="text-gray-300 text-xs">{team.wins} seire · {team.votes} stemmer</p>
+                  </div>
+                ))}
+              </div>
+              {finale.teamAwards && finale.teamAwards.length > 0 && (
+                <div className="flex justify-center gap-2">
+                  {finale.teamAwards.map(award => (
+                    <div key={award.title} className="bg-gradient-to-br from-purple-900/60 to-blue-900/60 rounded-xl p-3 border border-white/20 text-center">
+                      <p className="text-gray-300 text-xs mb-1">{award.title}</p>
+                      <p className="text-sm font-bold text-white">{award.name}</p>
+                      <p className="text-gray-400 text-xs">{award.members.join(', ')}</p>
+                      <p className="text-yellow-400 text-xs">{award.valueText}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {finale && finale.awards.length > 0 && (
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2 mb-4">
               {finale.awards.map((award, idx) => (
                 <div
                   key={idx}
@@ -1235,6 +2270,22 @@ export default function TVPage() {
             </div>
           )}
 
+          {finale?.topPredictors && finale.topPredictors.length > 0 && (
+            <div className="mb-4">
+              <h2 className="text-lg font-semibold text-center text-white mb-2">🔮 Beste tippere</h2>
+              <div className="flex justify-center gap-4">
+                {finale.topPredictors.map((entry, idx) => (
+                  <div key={entry.name} className="flex flex-col items-center p-2 rounded-lg bg-purple-900/40 border border-purple-500/50">
+                    <span className="text-lg">{idx + 1}.</span>
+                    <span className="text-2xl">{getAvatarIcon(entry.avatarId)}</span>
+                    <span className="text-sm font-bold text-white">{entry.name}</span>
+                    <span className="text-gray-300 text-xs">{entry.points} poeng</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           <p className="text-lg text-gray-300 mb-3 text-center">Takk for at dere spilte! 🎉</p>
 
           {state.showUpsell && !state.unlockInfo?.unlocked && state.gameMode === 'standard' && (
@@ -1262,6 +2313,20 @@ export default function TVPage() {
             >
               ⚙️ Bytt tone
             </button>
+            <Link
+              href="/history"
+              className="bg-white/10 hover:bg-white/20 text-white font-bold py-3 px-6 rounded-xl transition-colors shadow-lg"
+            >
+              📜 Tidligere kvelder
+            </Link>
+            <a
+              href={`/api/share?room=${state.roomCode}`}
+              target="_blank"
+              rel="noreferrer"
+              className="bg-white/10 hover:bg-white/20 text-white font-bold py-3 px-6 rounded-xl transition-colors shadow-lg"
+            >
+              📸 Delekort
+            </a>
           </div>
         </TVLayout>
       </>
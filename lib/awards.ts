@@ -0,0 +1,244 @@
+// lib/awards.ts
+// The finale's awards. Each rule looks at the finished game and nominates
+// recipients; selectAwards keeps the most remarkable few, giving each person
+// at most one award while someone else is still available. Everything here is
+// pure - the only chance involved is the wildcard, drawn with the given random().
+
+import type { Award, PlayedQuestion, Player } from './gameState';
+
+export const MAX_AWARDS = 5;
+
+export interface AwardContext {
+  players: Player[];
+  // Revealed questions in the order they were played
+  questions: PlayedQuestion[];
+  winsByName: Record<string, number>;
+  totalVotesReceivedByName: Record<string, number>;
+  predictionPointsByName: Record<string, number>;
+  // Winners are teams, so rules about who won a question have nobody to crown
+  teamMode: boolean;
+  predictionBonus: boolean;
+}
+
+export interface Nomination {
+  name: string;
+  valueText: string;
+  // Higher is more remarkable; compared across every rule
+  score: number;
+}
+
+export interface AwardRule {
+  title: string;
+  // Best first; the runners-up take the award when the best already has one
+  nominate(context: AwardContext): Nomination[];
+}
+
+const WILDCARD_TITLES = ['Kveldens mysterium', 'Kveldens joker', 'Kveldens overraskelse', 'Kveldens nøytrale'];
+
+function plural(count: number, one: string, many: string): string {
+  return `${count} ${count === 1 ? one : many}`;
+}
+
+// Everyone sharing the highest value, in join order so results don't shift between calls.
+// A title saying "most" shouldn't pass to a runner-up.
+function topPlayers(context: AwardContext, value: (name: string) => number): Array<{ name: string; value: number }> {
+  const values = context.players.map(p => ({ name: p.name, value: value(p.name) }));
+  let best = -Infinity;
+  values.forEach(entry => {
+    if (entry.value > best) best = entry.value;
+  });
+  return values.filter(entry => entry.value === best);
+}
+
+// A most-likely question's winner and their share of the votes
+function getWinningShare(question: PlayedQuestion): { winner: string; share: number; votes: number } | null {
+  if (question.kind !== 'most-likely' || !question.winner) return null;
+  const votes = Object.values(question.voteCount).reduce((sum, count) => sum + count, 0);
+  if (votes === 0) return null;
+  return { winner: question.winner, share: (question.voteCount[question.winner] || 0) / votes, votes };
+}
+
+const mainCharacter: AwardRule = {
+  title: 'Kveldens hovedkarakter',
+  nominate: context => topPlayers(context, name => context.winsByName[name] || 0)
+    .filter(entry => entry.value > 0)
+    .map(entry => ({ name: entry.name, valueText: plural(entry.value, 'seier', 'seire'), score: 1 })),
+};
+
+const chaosMagnet: AwardRule = {
+  title: 'Kveldens kaosmagnet',
+  nominate: context => {
+    if (context.teamMode) return [];
+    return topPlayers(context, name => context.totalVotesReceivedByName[name] || 0)
+      .filter(entry => entry.value > 0)
+      .map(entry => ({ name: entry.name, valueText: `${entry.value} stemmer totalt`, score: 0.5 }));
+  },
+};
+
+// Fewest votes received, so the value is negated
+const innocent: AwardRule = {
+  title: 'Kveldens uskyldige',
+  nominate: context => {
+    if (context.teamMode) return [];
+    return topPlayers(context, name => -(context.totalVotesReceivedByName[name] || 0)).map(entry => ({
+      name: entry.name,
+      valueText: entry.value === 0 ? 'Null stemmer!' : `Bare ${-entry.value} stemmer`,
+      score: entry.value === 0 ? 0.55 : 0.45,
+    }));
+  },
+};
+
+// The clearest single verdict of the night
+const unanimous: AwardRule = {
+  title: 'Kveldens enstemmige',
+  nominate: context => {
+    if (context.teamMode) return [];
+    const best: Record<string, number> = {};
+    context.questions.forEach(q => {
+      const result = getWinningShare(q);
+      if (result && result.votes >= 3 && result.share >= 0.75) best[result.winner] = Math.max(best[result.winner] || 0, result.share);
+    });
+    return Object.keys(best)
+      .sort((a, b) => best[b] - best[a])
+      .map(name => ({ name, valueText: `${Math.round(best[name] * 100)}% av stemmene`, score: best[name] }));
+  },
+};
+
+// Won without a majority - the room was split
+const polarizing: AwardRule = {
+  title: 'Kveldens splittende',
+  nominate: context => {
+    if (context.teamMode) return [];
+    const lowest: Record<string, number> = {};
+    context.questions.forEach(q => {
+      const result = getWinningShare(q);
+      if (result && result.votes >= 3 && result.share <= 0.5) lowest[result.winner] = Math.min(lowest[result.winner] ?? 1, result.share);
+    });
+    return Object.keys(lowest)
+      .sort((a, b) => lowest[a] - lowest[b])
+      .map(name => ({ name, valueText: `Vant med bare ${Math.round(lowest[name] * 100)}%`, score: 0.55 + (0.5 - lowest[name]) }));
+  },
+};
+
+const streak: AwardRule = {
+  title: 'Kveldens vinnerrekke',
+  nominate: context => {
+    if (context.teamMode) return [];
+    const longest: Record<string, number> = {};
+    let current = '';
+    let length = 0;
+    context.questions.forEach(q => {
+      // A would-you-rather has no winner and doesn't break a streak
+      if (q.kind === 'would-you-rather') return;
+      length = q.winner !== null && q.winner === current ? length + 1 : 1;
+      current = q.winner || '';
+      if (current) longest[current] = Math.max(longest[current] || 0, length);
+    });
+    return Object.keys(longest)
+      .filter(name => longest[name] >= 2)
+      .sort((a, b) => longest[b] - longest[a])
+      .map(name => ({ name, valueText: `${longest[name]} seire på rad`, score: Math.min(1, 0.5 + 0.1 * longest[name]) }));
+  },
+};
+
+// Nothing in the first half, then won in the second
+const comeback: AwardRule = {
+  title: 'Kveldens comeback',
+  nominate: context => {
+    if (context.teamMode) return [];
+    const decided = context.questions.filter(q => q.kind !== 'would-you-rather' && q.winner);
+    if (decided.length < 4) return [];
+    const half = Math.floor(decided.length / 2);
+    const early = new Set(decided.slice(0, half).map(q => q.winner));
+    const lateWins: Record<string, number> = {};
+    decided.slice(half).forEach(q => {
+      if (!early.has(q.winner)) lateWins[q.winner!] = (lateWins[q.winner!] || 0) + 1;
+    });
+    return Object.keys(lateWins)
+      .sort((a, b) => lateWins[b] - lateWins[a])
+      .map(name => ({ name, valueText: `${plural(lateWins[name], 'seier', 'seire')} etter en rolig start`, score: 0.6 + 0.05 * lateWins[name] }));
+  },
+};
+
+// Would have won, but the reroll picked someone else
+const savedByReroll: AwardRule = {
+  title: 'Reddet av variasjonen',
+  nominate: context => {
+    const spared: Record<string, number> = {};
+    context.questions.forEach(q => {
+      if (q.rerolledFrom) spared[q.rerolledFrom] = (spared[q.rerolledFrom] || 0) + 1;
+    });
+    return Object.keys(spared)
+      .sort((a, b) => spared[b] - spared[a])
+      .map(name => ({ name, valueText: `Sluppet unna ${plural(spared[name], 'gang', 'ganger')}`, score: 0.6 + 0.1 * spared[name] }));
+  },
+};
+
+const mindReader: AwardRule = {
+  title: 'Kveldens tankeleser',
+  nominate: context => {
+    if (!context.predictionBonus) return [];
+    return topPlayers(context, name => context.predictionPointsByName[name] || 0)
+      .filter(entry => entry.value > 0)
+      .map(entry => ({ name: entry.name, valueText: `${entry.value} poeng for riktige tips`, score: 0.65 + 0.05 * entry.value }));
+  },
+};
+
+export const AWARD_RULES: AwardRule[] = [
+  mainCharacter,
+  streak,
+  unanimous,
+  comeback,
+  savedByReroll,
+  polarizing,
+  mindReader,
+  chaosMagnet,
+  innocent,
+];
+
+// The most remarkable awards, at most one per person while anyone is left; a wildcard fills a free slot
+export function selectAwards(
+  context: AwardContext,
+  rules: AwardRule[] = AWARD_RULES,
+  random: () => number = Math.random,
+  limit: number = MAX_AWARDS,
+): Award[] {
+  const avatarOf = (name: string) => context.players.find(p => p.name === name)!.avatarId;
+  // Someone who has left can't be handed anything
+  const nominated = rules
+    .map((rule, order) => ({
+      rule,
+      order,
+      nominations: rule.nominate(context).filter(n => context.players.some(p => p.name === n.name)),
+    }))
+    .filter(entry => entry.nominations.length > 0)
+    .sort((a, b) => b.nominations[0].score - a.nominations[0].score || a.order - b.order);
+
+  const awards: Award[] = [];
+  const awarded = new Set<string>();
+  const give = (title: string, nomination: Nomination) => {
+    awards.push({ title, name: nomination.name, avatarId: avatarOf(nomination.name), valueText: nomination.valueText });
+    awarded.add(nomination.name);
+  };
+
+  // First pass: a new recipient for every award; second pass: repeats for the awards still left
+  const leftOver: typeof nominated = [];
+  nominated.forEach(entry => {
+    if (awards.length >= limit) return;
+    const fresh = entry.nominations.find(n => !awarded.has(n.name));
+    if (fresh) give(entry.rule.title, fresh);
+    else leftOver.push(entry);
+  });
+  leftOver.forEach(entry => {
+    if (awards.length < limit) give(entry.rule.title, entry.nominations[0]);
+  });
+
+  const remaining = context.players.filter(p => !awarded.has(p.name));
+  if (awards.length < limit && remaining.length > 0) {
+    const player = remaining[Math.floor(random() * remaining.length)];
+    const title = WILDCARD_TITLES[Math.floor(random() * WILDCARD_TITLES.length)];
+    awards.push({ title, name: player.name, avatarId: player.avatarId, valueText: '🎲' });
+  }
+
+  return awards;
+}
@@ -0,0 +1,126 @@
+// lib/entitlements.ts
+// Purchases of the 18+ unlock, kept apart from rooms so they outlive a
+// restart, a reset and the room itself. An entitlement belongs to the TV that
+// paid (its purchaser id) and can be restored on another TV with the receipt.
+
+import crypto from 'crypto';
+import { Store, createStoreFromEnv } from './storage';
+
+export const ENTITLEMENT_DURATION_MS = 24 * 60 * 60 * 1000;
+export const MAX_DEVICE_ID_LENGTH = 100;
+
+// Same look-alike-free letters as room codes, plus digits without 0 and 1
+const RECEIPT_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export interface Entitlement {
+  id: string;
+  // Who bought it - see getPurchaserId
+  purchaserId: string;
+  // Every TV allowed to use it: the purchaser plus any it was restored on
+  purchaserIds: string[];
+  // Shown to the buyer once paid; enough to restore the purchase elsewhere
+  receipt: string;
+  checkoutId: string;
+  purchasedAt: number;
+  expiresAt: number;
+}
+
+interface EntitlementRegistry {
+  entitlements: Record<string, Entitlement>;
+  store: Store<Entitlement>;
+}
+
+function createRegistry(): EntitlementRegistry {
+  const store = createStoreFromEnv<Entitlement>('entitlements');
+  const entitlements: Record<string, Entitlement> = {};
+  store.load().forEach(entitlement => {
+    entitlements[entitlement.id] = entitlement;
+  });
+  return { entitlements, store };
+}
+
+// Kept on globalThis so every route bundle shares one registry - see lib/rooms.ts
+const globalForEntitlements = globalThis as typeof globalThis & { entitlementRegistry?: EntitlementRegistry };
+const registry: EntitlementRegistry = globalForEntitlements.entitlementRegistry ??= createRegistry();
+const { entitlements } = registry;
+
+function persistEntitlements(): void {
+  try {
+    registry.store.save(Object.values(entitlements));
+  } catch (error) {
+    console.error('Failed to persist entitlements', error);
+  }
+}
+
+function generateReceipt(): string {
+  const bytes = crypto.randomBytes(8);
+  let receipt = '';
+  for (let i = 0; i < bytes.length; i++) {
+    if (i === 4) receipt += '-';
+    receipt += RECEIPT_ALPHABET[bytes[i] % RECEIPT_ALPHABET.length];
+  }
+  return receipt;
+}
+
+export function normalizeReceipt(receipt: string): string {
+  return receipt.trim().toUpperCase();
+}
+
+// The TV keeps a random device id to itself; only a hash of it is stored and shown
+export function getPurchaserId(deviceId: unknown): string | null {
+  if (typeof deviceId !== 'string' || !deviceId || deviceId.length > MAX_DEVICE_ID_LENGTH) return null;
+  return 'tv_' + crypto.createHash('sha256').update(deviceId).digest('hex').substring(0, 12);
+}
+
+export function isEntitlementActive(entitlement: Entitlement, now: number = Date.now()): boolean {
+  return now < entitlement.expiresAt;
+}
+
+export function getEntitlement(id: string): Entitlement | undefined {
+  return entitlements[id];
+}
+
+// The longest-running active purchase usable by this TV
+export function findActiveEntitlement(purchaserId: string, now: number = Date.now()): Entitlement | undefined {
+  return Object.values(entitlements)
+    .filter(e => e.purchaserIds.includes(purchaserId) && isEntitlementActive(e, now))
+    .sort((a, b) => b.expiresAt - a.expiresAt)[0];
+}
+
+// Idempotent per checkout, so a retried webhook never buys twice
+export function grantEntitlement(purchaserId: string, checkoutId: string): Entitlement {
+  const existing = Object.values(entitlements).find(e => e.checkoutId === checkoutId);
+  if (existing) return existing;
+
+  const now = Date.now();
+  const entitlement: Entitlement = {
+    id: 'ent_' + crypto.randomBytes(8).toString('hex'),
+    purchaserId,
+    purchaserIds: [purchaserId],
+    receipt: generateReceipt(),
+    checkoutId,
+    purchasedAt: now,
+    expiresAt: now + ENTITLEMENT_DURATION_MS,
+  };
+  entitlements[entitlement.id] = entitlement;
+  persistEntitlements();
+  return entitlement;
+}
+
+// Let another TV use a purchase, given its receipt
+export function restoreEntitlement(receipt: unknown, purchaserId: string): { success: boolean; error?: string; entitlement?: Entitlement } {
+  if (typeof receipt !== 'string' || !receipt.trim()) {
+    return { success: false, error: 'Skriv inn kvitteringskoden' };
+  }
+
+  const code = normalizeReceipt(receipt);
+  const entitlement = Object.values(entitlements).find(e => e.receipt === code);
+  if (!entitlement) return { success: false, error: 'Fant ingen kjøp med denne kvitteringen' };
+  if (!isEntitlementActive(entitlement)) return { success: false, error: 'Kjøpet har utløpt' };
+
+  if (!entitlement.purchaserIds.includes(purchaserId)) {
+    entitlement.purchaserIds.push(purchaserId);
+    persistEntitlements();
+  }
+  return { success: true, entitlement };
+}
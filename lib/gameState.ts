@@ -1,15 +1,35 @@
 // lib/gameState.ts
-// In-memory game state - persists only while server is running
-
-import { Question, QuestionTone, getDefault18PlusQuestions } from './questions';
-
-export type GamePhase = 'lobby' | 'question' | 'reveal' | 'gameover';
+// Game rules operating on a single room's in-memory state - see lib/rooms.ts
+
+import { Question, QuestionKind, QuestionTone, getDefault18PlusQuestions } from './questions';
+import { STANDARD_PACK_ID, getPack } from './questionPacks';
+import { getNameRules, nameKey, validatePlayerName } from './playerNames';
+import { Entitlement, findActiveEntitlement, getEntitlement, isEntitlementActive, restoreEntitlement } from './entitlements';
+import { AWARD_RULES, selectAwards } from './awards';
+import { archiveSession } from './history';
+import { Random, createRandom, generateSeed, nextRandom, pickRandom, shuffle } from './random';
+import type { Room } from './rooms';
+
+export type GamePhase = 'lobby' | 'question' | 'tiebreak' | 'reveal' | 'gameover';
 export type GameMode = 'standard' | '18+';
 export type CheckoutStatus = 'open' | 'paid' | 'canceled';
 export type GroupSize = 'small' | 'medium' | 'large';
+// Number of questions per game, or 'endless' to play until the host stops
+export type RoundLength = 5 | 10 | 20 | 30 | 'endless';
 
 export const MIN_PLAYERS = 3;
 export const MAX_PLAYERS = 12;
+export const MAX_SPECTATORS = 20;
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = 4;
+export const RANK_SIZE = 3;
+export const PREDICTION_POINTS = 1;
+// Seconds for the revote between tied players
+export const TIE_BREAK_TIME = 10;
+export const ROUND_LENGTHS: RoundLength[] = [5, 10, 20, 30, 'endless'];
+export const DEFAULT_ROUND_LENGTH: RoundLength = 20;
+const MAX_REJOIN_FAILURES = 5;
+const REJOIN_LOCKOUT_MS = 60 * 1000;
 
 export interface Avatar {
   id: string;
@@ -40,48 +60,186 @@ export interface Top3Entry {
   avatarId: string;
 }
 
+export interface QuestionFormat {
+  kind: QuestionKind;
+  // The two choices of a 'would-you-rather' question
+  options?: string[];
+}
+
+// A candidate's name, an option for a would-you-rather, or a ranking best first
+export type VoteChoice = string | string[];
+
+export interface Team {
+  name: string;
+  // Player names
+  members: string[];
+}
+
+export interface TeamStanding {
+  name: string;
+  members: string[];
+  wins: number;
+  votes: number;
+}
+
+export interface TeamAward {
+  title: string;
+  name: string;
+  members: string[];
+  valueText: string;
+}
+
+export interface PredictorEntry {
+  name: string;
+  points: number;
+  avatarId: string;
+}
+
 export interface FinaleSummary {
   awards: Award[];
   top3: Top3Entry[];
+  // Only when the prediction bonus was on
+  topPredictors?: PredictorEntry[];
+  // Only in team mode
+  teamAwards?: TeamAward[];
+  teamStandings?: TeamStanding[];
+}
+
+// One revealed question, as kept in the game's history
+export interface PlayedQuestion {
+  text: string;
+  kind: QuestionKind;
+  // The player or team on top, or the most chosen option; null when nothing stood out
+  winner: string | null;
+  // Votes per candidate or option - points for a ranking
+  voteCount: Record<string, number>;
+  // Who the votes picked before a reroll spared them
+  rerolledFrom?: string;
+}
+
+// One player's own numbers, for their phone - see getPlayerStats
+export interface PlayerStats {
+  name: string;
+  // Their team in team mode; votes are counted per team there
+  team: string | null;
+  wins: number;
+  totalVotesReceived: number;
+  // Votes on the question being revealed - first places for a ranking; null outside a reveal or on a would-you-rather
+  votesThisQuestion: number | null;
+  predictionPoints: number;
+  // Questions they or their team came out on top of, in order
+  questionsWon: string[];
 }
 
 export interface Checkout {
   id: string;
   status: CheckoutStatus;
   createdAt: number;
+  purchaserId: string;
 }
 
+// Clients only see the status - the purchaser id stays on the server
+export type PublicCheckout = Omit<Checkout, 'purchaserId'>;
+
 export interface UnlockInfo {
   unlocked: boolean;
   until: number | null;
+  purchasedAt: number | null;
+  // Purchaser id of the TV that paid
+  purchasedBy: string | null;
 }
 
 export interface GameState {
   phase: GamePhase;
   players: Player[];
+  // Joined mid-game; they take part from the next question
+  waitingPlayers: Player[];
+  // Watch and may cast audience votes, but are never vote targets
+  spectators: Player[];
   currentQuestion: number;
-  votes: Record<string, string>;
+  // Keyed by player token - never sent to clients, see getGameState. null is a pass.
+  votes: Record<string, VoteChoice | null>;
+  // During a tie-break votes holds the revote and the question's own votes wait here
+  firstRoundVotes: Record<string, VoteChoice | null>;
+  // Who is in the running tie-break
+  tiedCandidates: string[];
+  // Spectators' votes, keyed by token like votes and kept apart from the result
+  audienceVotes: Record<string, VoteChoice>;
+  // Who each player thinks will win the question, keyed by token like votes
+  predictions: Record<string, string>;
   questionStartTime: number | null;
   selectedQuestions: string[];
+  // How each of selectedQuestions is answered, by the same index
+  questionFormats: QuestionFormat[];
+  // Results so far, archived with the game when it ends
+  playedQuestions: PlayedQuestion[];
+  gameStartedAt: number | null;
   selectedTone: QuestionTone;
   couplesSafe: boolean;
+  selectedPackIds: string[];
+  roundLength: RoundLength;
+  // Reveal who voted for whom instead of only the totals
+  openBallot: boolean;
+  allowSelfVote: boolean;
+  // Votes can be changed until the deadline or until everyone has voted
+  allowVoteChange: boolean;
+  // New players may join a running game, between questions
+  allowLateJoin: boolean;
+  // Players may also guess the winner, for points of their own
+  predictionBonus: boolean;
+  // A tie at the top goes to a revote between the tied instead of a random draw
+  tieBreak: boolean;
+  // Host has closed the room to new players; rejoining still works
+  lobbyLocked: boolean;
   lastWinnerName: string | null;
   recentWinners: string[];
   recentTargets: Record<string, number>;
   rerollInfo: RerollInfo | null;
   winsByName: Record<string, number>;
   totalVotesReceivedByName: Record<string, number>;
+  // Points for correct predictions, by voter
+  predictionPointsByName: Record<string, number>;
+  // Team mode when non-empty: players vote for a team instead of a person
+  teams: Team[];
+  winsByTeam: Record<string, number>;
+  totalVotesReceivedByTeam: Record<string, number>;
   gameMode: GameMode;
   showUpsell: boolean;
-  // 24-hour unlock
-  unlock18PlusUntil: number | null;
+  // Purchase restored or bought in this room; the host TV's own purchases apply too
+  entitlementId: string | null;
   checkout: Checkout | null;
   // Pause state
   isPaused: boolean;
   pausedAt: number | null;
   pauseAccumulatedMs: number;
+  // Result of the current question once voting has ended
+  revealResult: RevealResult | null;
+  // Every draw in the game comes from this seed - see lib/random.ts. Never sent to clients.
+  seed: number;
+  // Position of the generator, advanced by each draw
+  randomState: number;
 }
 
+export interface RoomSettings {
+  tone: QuestionTone;
+  couplesSafe: boolean;
+  roundLength: RoundLength;
+  openBallot: boolean;
+  allowSelfVote: boolean;
+  allowVoteChange: boolean;
+  allowLateJoin: boolean;
+  predictionBonus: boolean;
+  tieBreak: boolean;
+}
+
+// What clients see: votes and predictions are replaced by how many have been cast, and the seed is left out
+export type PublicGameState = Omit<GameState, 'votes' | 'firstRoundVotes' | 'audienceVotes' | 'predictions' | 'seed' | 'randomState' | 'checkout'> & {
+  checkout: PublicCheckout | null;
+  votesCast: number;
+  audienceVotesCast: number;
+  predictionsCast: number;
+};
+
 export const AVATARS: Avatar[] = [
   // Party faces
   { id: 'party', icon: '🥳' },
@@ -119,154 +277,208 @@ export function getAvatars(): Avatar[] {
   return AVATARS;
 }
 
-let tokenMap: Record<string, Player> = {};
-
-let gameState: GameState = {
-  phase: 'lobby',
-  players: [],
-  currentQuestion: 0,
-  votes: {},
-  questionStartTime: null,
-  selectedQuestions: [],
-  selectedTone: 'spicy',
-  couplesSafe: false,
-  lastWinnerName: null,
-  recentWinners: [],
-  recentTargets: {},
-  rerollInfo: null,
-  winsByName: {},
-  totalVotesReceivedByName: {},
-  gameMode: 'standard',
-  showUpsell: false,
-  unlock18PlusUntil: null,
-  checkout: null,
-  isPaused: false,
-  pausedAt: null,
-  pauseAccumulatedMs: 0,
-};
+export function createInitialState(): GameState {
+  const seed = generateSeed();
+  return {
+    phase: 'lobby',
+    players: [],
+    waitingPlayers: [],
+    spectators: [],
+    currentQuestion: 0,
+    votes: {},
+    firstRoundVotes: {},
+    tiedCandidates: [],
+    audienceVotes: {},
+    predictions: {},
+    questionStartTime: null,
+    selectedQuestions: [],
+    questionFormats: [],
+    playedQuestions: [],
+    gameStartedAt: null,
+    selectedTone: 'spicy',
+    couplesSafe: false,
+    selectedPackIds: [STANDARD_PACK_ID],
+    roundLength: DEFAULT_ROUND_LENGTH,
+    openBallot: false,
+    allowSelfVote: true,
+    allowVoteChange: false,
+    allowLateJoin: false,
+    predictionBonus: false,
+    tieBreak: false,
+    lobbyLocked: false,
+    lastWinnerName: null,
+    recentWinners: [],
+    recentTargets: {},
+    rerollInfo: null,
+    winsByName: {},
+    totalVotesReceivedByName: {},
+    predictionPointsByName: {},
+    teams: [],
+    winsByTeam: {},
+    totalVotesReceivedByTeam: {},
+    gameMode: 'standard',
+    showUpsell: false,
+    entitlementId: null,
+    checkout: null,
+    isPaused: false,
+    pausedAt: null,
+    pauseAccumulatedMs: 0,
+    revealResult: null,
+    seed,
+    randomState: seed,
+  };
+}
 
 // Get group size based on player count
-export function getGroupSize(playerCount?: number): GroupSize {
-  const count = playerCount ?? gameState.players.length;
+export function getGroupSize(count: number): GroupSize {
   if (count <= 6) return 'small';
   if (count <= 9) return 'medium';
   return 'large';
 }
 
 // Get question time based on group size
-export function getQuestionTime(groupSize?: GroupSize): number {
-  const size = groupSize ?? getGroupSize();
-  switch (size) {
+export function getQuestionTime(groupSize: GroupSize): number {
+  switch (groupSize) {
     case 'small': return 20;
     case 'medium': return 18;
     case 'large': return 15;
   }
 }
 
-// Check if 18+ is currently unlocked (within 24h window)
-export function is18PlusUnlocked(): boolean {
-  if (gameState.unlock18PlusUntil === null) return false;
-  return Date.now() < gameState.unlock18PlusUntil;
+// When voting on the current question closes, excluding any pause in progress.
+// Clients render the countdown from this; the server ends the round on it.
+export function getQuestionDeadline(room: Room): number | null {
+  const { phase, questionStartTime, pauseAccumulatedMs, players } = room.state;
+  if (!isVotingPhase(room) || questionStartTime === null) return null;
+  const questionTime = phase === 'tiebreak' ? TIE_BREAK_TIME : getQuestionTime(getGroupSize(players.length));
+  return questionStartTime + pauseAccumulatedMs + questionTime * 1000;
+}
+
+// Ballots from players still in their seat - a token can outlive its player
+function countSeatedVotes(room: Room): number {
+  return Object.keys(room.state.votes).filter(token => {
+    const playerData = room.tokenMap[token];
+    return playerData !== undefined && room.state.players.some(p => p.name === playerData.name);
+  }).length;
+}
+
+// Close voting once time is up or everyone has voted. Safe to call repeatedly.
+// Returns true if the room changed.
+export function tickRoom(room: Room, now: number = Date.now()): boolean {
+  if (!isVotingPhase(room) || room.state.isPaused) return false;
+
+  const deadline = getQuestionDeadline(room);
+  const playerCount = room.state.players.length;
+  const allVoted = playerCount > 0 && countSeatedVotes(room) >= playerCount;
+
+  if (allVoted || (deadline !== null && now >= deadline)) {
+    endVoting(room);
+    return true;
+  }
+  return false;
+}
+
+function getActiveEntitlement(room: Room): Entitlement | undefined {
+  const now = Date.now();
+  const attached = room.state.entitlementId ? getEntitlement(room.state.entitlementId) : undefined;
+  if (attached && isEntitlementActive(attached, now)) return attached;
+  return room.purchaserId ? findActiveEntitlement(room.purchaserId, now) : undefined;
+}
+
+// Check if 18+ is currently unlocked by an active purchase
+export function is18PlusUnlocked(room: Room): boolean {
+  return getActiveEntitlement(room) !== undefined;
 }
 
 // Get unlock info for API response
-export function getUnlockInfo(): UnlockInfo {
+export function getUnlockInfo(room: Room): UnlockInfo {
+  const entitlement = getActiveEntitlement(room);
   return {
-    unlocked: is18PlusUnlocked(),
-    until: gameState.unlock18PlusUntil,
+    unlocked: entitlement !== undefined,
+    until: entitlement?.expiresAt ?? null,
+    purchasedAt: entitlement?.purchasedAt ?? null,
+    purchasedBy: entitlement?.purchaserId ?? null,
   };
 }
 
-export function getGameState(): GameState {
+// Receipt of the active purchase - for the host only, since it unlocks any TV
+export function getReceipt(room: Room): string | null {
+  return getActiveEntitlement(room)?.receipt ?? null;
+}
+
+export function getGameState(room: Room): PublicGameState {
+  const { votes, firstRoundVotes, audienceVotes, predictions, seed, randomState, ...state } = room.state;
+  return {
+    ...state,
+    votesCast: countSeatedVotes(room),
+    audienceVotesCast: Object.keys(audienceVotes).length,
+    predictionsCast: Object.keys(predictions).length,
+    players: [...room.state.players],
+    waitingPlayers: [...room.state.waitingPlayers],
+    spectators: [...room.state.spectators],
+    selectedPackIds: [...room.state.selectedPackIds],
+    questionFormats: [...room.state.questionFormats],
+    tiedCandidates: [...room.state.tiedCandidates],
+    playedQuestions: [...room.state.playedQuestions],
+    recentWinners: [...room.state.recentWinners],
+    recentTargets: { ...room.state.recentTargets },
+    winsByName: { ...room.state.winsByName },
+    totalVotesReceivedByName: { ...room.state.totalVotesReceivedByName },
+    predictionPointsByName: { ...room.state.predictionPointsByName },
+    teams: room.state.teams.map(t => ({ ...t, members: [...t.members] })),
+    winsByTeam: { ...room.state.winsByTeam },
+    totalVotesReceivedByTeam: { ...room.state.totalVotesReceivedByTeam },
+    checkout: room.state.checkout
+      ? { id: room.state.checkout.id, status: room.state.checkout.status, createdAt: room.state.checkout.createdAt }
+      : null,
+  };
+}
+
+// Everything a client needs to render the room - served by GET and pushed over SSE
+export function getRoomSnapshot(room: Room) {
+  const state = getGameState(room);
+  const groupSize = getGroupSize(state.players.length);
   return {
-    ...gameState,
-    players: [...gameState.players],
-    recentWinners: [...gameState.recentWinners],
-    recentTargets: { ...gameState.recentTargets },
-    winsByName: { ...gameState.winsByName },
-    totalVotesReceivedByName: { ...gameState.totalVotesReceivedByName },
-    checkout: gameState.checkout ? { ...gameState.checkout } : null,
+    ...state,
+    roomCode: room.code,
+    avatars: getAvatars(),
+    finaleSummary: getFinaleStats(room),
+    unlockInfo: getUnlockInfo(room),
+    groupSize,
+    questionTime: getQuestionTime(groupSize),
+    deadline: getQuestionDeadline(room),
+    minPlayers: MIN_PLAYERS,
+    maxPlayers: MAX_PLAYERS,
+    // Player and team names - see lib/playerNames.ts
+    maxNameLength: getNameRules().maxLength,
+    rankSize: RANK_SIZE,
+    rejoinPinVersion: room.rejoin.version,
   };
 }
 
-export function getFinaleStats(): FinaleSummary | null {
-  if (gameState.phase !== 'gameover') return null;
+export function getFinaleStats(room: Room): FinaleSummary | null {
+  if (room.state.phase !== 'gameover') return null;
 
-  const awards: Award[] = [];
-  const players = gameState.players;
+  const players = room.state.players;
+  const teamMode = isTeamMode(room);
 
   const getPlayerAvatarId = (name: string): string => {
     const player = players.find(p => p.name === name);
     return player?.avatarId || AVATARS[0].id;
   };
 
-  let maxWins = 0;
-  let mainCharacter = '';
-  Object.entries(gameState.winsByName).forEach(([name, wins]) => {
-    if (wins > maxWins) {
-      maxWins = wins;
-      mainCharacter = name;
-    }
-  });
-  if (mainCharacter && maxWins > 0) {
-    awards.push({
-      title: 'Kveldens hovedkarakter',
-      name: mainCharacter,
-      avatarId: getPlayerAvatarId(mainCharacter),
-      valueText: `${maxWins} seire`,
-    });
-  }
-
-  let maxTotalVotes = 0;
-  let chaosMagnet = '';
-  Object.entries(gameState.totalVotesReceivedByName).forEach(([name, votes]) => {
-    if (votes > maxTotalVotes) {
-      maxTotalVotes = votes;
-      chaosMagnet = name;
-    }
-  });
-  if (chaosMagnet && maxTotalVotes > 0) {
-    awards.push({
-      title: 'Kveldens kaosmagnet',
-      name: chaosMagnet,
-      avatarId: getPlayerAvatarId(chaosMagnet),
-      valueText: `${maxTotalVotes} stemmer totalt`,
-    });
-  }
-
-  let minTotalVotes = Infinity;
-  let innocent = '';
-  players.forEach(p => {
-    const votes = gameState.totalVotesReceivedByName[p.name] || 0;
-    if (votes < minTotalVotes) {
-      minTotalVotes = votes;
-      innocent = p.name;
-    }
-  });
-  if (innocent && innocent !== mainCharacter && innocent !== chaosMagnet) {
-    awards.push({
-      title: 'Kveldens uskyldige',
-      name: innocent,
-      avatarId: getPlayerAvatarId(innocent),
-      valueText: minTotalVotes === 0 ? 'Null stemmer!' : `Bare ${minTotalVotes} stemmer`,
-    });
-  }
-
-  const awardedNames = awards.map(a => a.name);
-  const remainingPlayers = players.filter(p => !awardedNames.includes(p.name));
-  if (remainingPlayers.length > 0) {
-    const wildcardLabels = ['Kveldens mysterium', 'Kveldens joker', 'Kveldens overraskelse', 'Kveldens nøytrale'];
-    const randomPlayer = remainingPlayers[Math.floor(Math.random() * remainingPlayers.length)];
-    const randomLabel = wildcardLabels[Math.floor(Math.random() * wildcardLabels.length)];
-    awards.push({
-      title: randomLabel,
-      name: randomPlayer.name,
-      avatarId: randomPlayer.avatarId,
-      valueText: '🎲',
-    });
-  }
-
-  const sortedByWins = Object.entries(gameState.winsByName)
+  // The wildcard gets a generator of its own so every call agrees - the TV, the share card and the archive
+  const awards = selectAwards({
+    players,
+    questions: room.state.playedQuestions,
+    winsByName: room.state.winsByName,
+    totalVotesReceivedByName: room.state.totalVotesReceivedByName,
+    predictionPointsByName: room.state.predictionPointsByName,
+    teamMode,
+    predictionBonus: room.state.predictionBonus,
+  }, AWARD_RULES, createRandom(room.state.seed));
+
+  const sortedByWins = Object.entries(room.state.winsByName)
     .sort((a, b) => b[1] - a[1])
     .slice(0, 3)
     .map(([name, wins]) => ({
@@ -275,246 +487,687 @@ export function getFinaleStats(): FinaleSummary | null {
       avatarId: getPlayerAvatarId(name),
     }));
 
-  return { awards, top3: sortedByWins };
+  const topPredictors = room.state.predictionBonus
+    ? Object.entries(room.state.predictionPointsByName)
+      .filter(([, points]) => points > 0)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 3)
+      .map(([name, points]) => ({ name, points, avatarId: getPlayerAvatarId(name) }))
+    : undefined;
+
+  if (!teamMode) return { awards, top3: sortedByWins, topPredictors };
+
+  const teamStandings: TeamStanding[] = room.state.teams
+    .map(t => ({
+      name: t.name,
+      members: [...t.members],
+      wins: room.state.winsByTeam[t.name] || 0,
+      votes: room.state.totalVotesReceivedByTeam[t.name] || 0,
+    }))
+    .sort((a, b) => b.wins - a.wins || b.votes - a.votes);
+
+  const teamAwards: TeamAward[] = [];
+  const bestTeam = teamStandings[0];
+  if (bestTeam.wins > 0) {
+    teamAwards.push({ title: 'Kveldens lag', name: bestTeam.name, members: bestTeam.members, valueText: `${bestTeam.wins} seire` });
+  }
+  const mostVotedTeam = [...teamStandings].sort((a, b) => b.votes - a.votes)[0];
+  if (mostVotedTeam.votes > 0 && mostVotedTeam !== bestTeam) {
+    teamAwards.push({
+      title: 'Kveldens mest utpekte lag',
+      name: mostVotedTeam.name,
+      members: mostVotedTeam.members,
+      valueText: `${mostVotedTeam.votes} stemmer totalt`,
+    });
+  }
+
+  return { awards, top3: sortedByWins, topPredictors, teamAwards, teamStandings };
 }
 
-// Reset game but PRESERVE unlock18PlusUntil
-export function resetGame(): GameState {
-  const preserveUnlockUntil = gameState.unlock18PlusUntil;
+// Reset game but PRESERVE the room's purchase
+export function resetGame(room: Room): PublicGameState {
+  const preserveEntitlementId = room.state.entitlementId;
+  const seed = generateSeed();
 
-  gameState = {
+  room.state = {
     phase: 'lobby',
     players: [],
+    waitingPlayers: [],
+    spectators: [],
     currentQuestion: 0,
     votes: {},
+    firstRoundVotes: {},
+    tiedCandidates: [],
+    audienceVotes: {},
+    predictions: {},
     questionStartTime: null,
     selectedQuestions: [],
+    questionFormats: [],
+    playedQuestions: [],
+    gameStartedAt: null,
     selectedTone: 'spicy',
     couplesSafe: false,
+    selectedPackIds: [STANDARD_PACK_ID],
+    roundLength: DEFAULT_ROUND_LENGTH,
+    openBallot: false,
+    allowSelfVote: true,
+    allowVoteChange: false,
+    allowLateJoin: false,
+    predictionBonus: false,
+    tieBreak: false,
+    lobbyLocked: false,
     lastWinnerName: null,
     recentWinners: [],
     recentTargets: {},
     rerollInfo: null,
     winsByName: {},
     totalVotesReceivedByName: {},
+    predictionPointsByName: {},
+    teams: [],
+    winsByTeam: {},
+    totalVotesReceivedByTeam: {},
     gameMode: 'standard',
     showUpsell: false,
-    unlock18PlusUntil: preserveUnlockUntil,
+    entitlementId: preserveEntitlementId,
     checkout: null,
     isPaused: false,
     pausedAt: null,
     pauseAccumulatedMs: 0,
+    revealResult: null,
+    seed,
+    randomState: seed,
   };
-  tokenMap = {};
-  return getGameState();
+  room.tokenMap = {};
+  return getGameState(room);
 }
 
-export function resetToLobby(): GameState {
-  const preserveUnlockUntil = gameState.unlock18PlusUntil;
-  const preservePlayers = [...gameState.players];
-  const preserveTokenMap = { ...tokenMap };
+export function resetToLobby(room: Room): PublicGameState {
+  const preserveEntitlementId = room.state.entitlementId;
+  const preservePlayers = [...room.state.players, ...room.state.waitingPlayers];
+  const preserveSpectators = [...room.state.spectators];
+  const preserveTeams = room.state.teams;
+  const preserveTokenMap = { ...room.tokenMap };
+  const seed = generateSeed();
 
-  gameState = {
+  room.state = {
     phase: 'lobby',
     players: preservePlayers,
+    waitingPlayers: [],
+    spectators: preserveSpectators,
     currentQuestion: 0,
     votes: {},
+    firstRoundVotes: {},
+    tiedCandidates: [],
+    audienceVotes: {},
+    predictions: {},
     questionStartTime: null,
     selectedQuestions: [],
+    questionFormats: [],
+    playedQuestions: [],
+    gameStartedAt: null,
     selectedTone: 'spicy',
     couplesSafe: false,
+    selectedPackIds: [STANDARD_PACK_ID],
+    roundLength: DEFAULT_ROUND_LENGTH,
+    openBallot: false,
+    allowSelfVote: true,
+    allowVoteChange: false,
+    allowLateJoin: false,
+    predictionBonus: false,
+    tieBreak: false,
+    lobbyLocked: false,
     lastWinnerName: null,
     recentWinners: [],
     recentTargets: {},
     rerollInfo: null,
     winsByName: {},
     totalVotesReceivedByName: {},
+    predictionPointsByName: {},
+    teams: preserveTeams,
+    winsByTeam: {},
+    totalVotesReceivedByTeam: {},
     gameMode: 'standard',
     showUpsell: false,
-    unlock18PlusUntil: preserveUnlockUntil,
+    entitlementId: preserveEntitlementId,
     checkout: null,
     isPaused: false,
     pausedAt: null,
     pauseAccumulatedMs: 0,
+    revealResult: null,
+    seed,
+    randomState: seed,
   };
-  tokenMap = preserveTokenMap;
-  return getGameState();
+  room.tokenMap = preserveTokenMap;
+  // Late joiners from the last game get a team too
+  preservePlayers.forEach(p => assignToSmallestTeam(room, p.name));
+  return getGameState(room);
 }
 
 function generateCheckoutId(): string {
   return 'cs_' + Math.random().toString(36).substring(2) + Date.now().toString(36);
 }
 
-export function createCheckout(): { success: boolean; error?: string; checkoutId?: string; checkoutUrl?: string } {
-  if (gameState.phase !== 'lobby') {
+// Opens a checkout in the room; see lib/payments.ts for the provider session
+export function createCheckout(room: Room): { success: boolean; error?: string; checkoutId?: string } {
+  if (room.state.phase !== 'lobby') {
     return { success: false, error: 'Kan bare opprette checkout i lobbyen' };
   }
 
-  if (gameState.gameMode !== '18+') {
+  if (room.state.gameMode !== '18+') {
     return { success: false, error: '18+ modus må være valgt' };
   }
 
-  if (is18PlusUnlocked()) {
+  if (is18PlusUnlocked(room)) {
     return { success: false, error: '18+ er allerede låst opp' };
   }
 
+  if (!room.purchaserId) {
+    return { success: false, error: 'Start et nytt rom for å kjøpe' };
+  }
+
   const checkoutId = generateCheckoutId();
-  gameState.checkout = {
+  room.state.checkout = {
     id: checkoutId,
     status: 'open',
     createdAt: Date.now(),
+    purchaserId: room.purchaserId,
   };
 
-  return {
-    success: true,
-    checkoutId,
-    checkoutUrl: `/checkout?cid=${checkoutId}`,
-  };
+  return { success: true, checkoutId };
 }
 
-export function markCheckoutPaid(checkoutId: string): { success: boolean; error?: string } {
-  if (!gameState.checkout) {
+// Shows a purchase the webhook has already granted in the room that started it - see handlePaymentWebhook
+export function markCheckoutPaid(room: Room, checkoutId: string, entitlementId: string): { success: boolean; error?: string } {
+  if (!room.state.checkout) {
     return { success: false, error: 'Ingen aktiv checkout' };
   }
 
-  if (gameState.checkout.id !== checkoutId) {
+  if (room.state.checkout.id !== checkoutId) {
     return { success: false, error: 'Ugyldig checkout ID' };
   }
 
-  if (gameState.checkout.status !== 'open') {
-    return { success: false, error: 'Checkout er ikke åpen' };
-  }
-
-  gameState.checkout.status = 'paid';
-  // Set 24-hour unlock window
-  gameState.unlock18PlusUntil = Date.now() + 24 * 60 * 60 * 1000;
-
+  room.state.checkout.status = 'paid';
+  room.state.entitlementId = entitlementId;
   return { success: true };
 }
 
-export function markCheckoutCanceled(checkoutId: string): { success: boolean; error?: string } {
-  if (!gameState.checkout) {
+export function markCheckoutCanceled(room: Room, checkoutId: string): { success: boolean; error?: string } {
+  if (!room.state.checkout) {
     return { success: false, error: 'Ingen aktiv checkout' };
   }
 
-  if (gameState.checkout.id !== checkoutId) {
+  if (room.state.checkout.id !== checkoutId) {
     return { success: false, error: 'Ugyldig checkout ID' };
   }
 
-  if (gameState.checkout.status !== 'open') {
+  if (room.state.checkout.status === 'canceled') {
+    return { success: true };
+  }
+
+  if (room.state.checkout.status !== 'open') {
     return { success: false, error: 'Checkout er ikke åpen' };
   }
 
-  gameState.checkout.status = 'canceled';
+  room.state.checkout.status = 'canceled';
   return { success: true };
 }
 
-export function setGameMode(mode: GameMode): { success: boolean; error?: string } {
-  if (gameState.phase !== 'lobby') {
+// Bring a purchase made on another TV into this room
+export function restorePurchase(room: Room, receipt: unknown): { success: boolean; error?: string } {
+  if (!room.purchaserId) {
+    return { success: false, error: 'Start et nytt rom for å gjenopprette kjøpet' };
+  }
+
+  const result = restoreEntitlement(receipt, room.purchaserId);
+  if (!result.success || !result.entitlement) return result;
+
+  room.state.entitlementId = result.entitlement.id;
+  return { success: true };
+}
+
+export function setGameMode(room: Room, mode: unknown): { success: boolean; error?: string } {
+  if (room.state.phase !== 'lobby') {
     return { success: false, error: 'Kan bare endre modus i lobbyen' };
   }
-  gameState.gameMode = mode;
+  if (mode !== 'standard' && mode !== '18+') {
+    return { success: false, error: 'Ugyldig modus' };
+  }
+  room.state.gameMode = mode;
   return { success: true };
 }
 
-function generateToken(): string {
+export function generateToken(): string {
   if (typeof crypto !== 'undefined' && crypto.randomUUID) {
     return crypto.randomUUID();
   }
   return Math.random().toString(36).substring(2) + Date.now().toString(36);
 }
 
-function getRandomAvatarId(): string {
-  return AVATARS[Math.floor(Math.random() * AVATARS.length)].id;
+// Draws from the room's generator, advancing its position in state
+function getRandom(room: Room): Random {
+  return () => {
+    const next = nextRandom(room.state.randomState);
+    room.state.randomState = next.state;
+    return next.value;
+  };
+}
+
+// Starts the room's generator over from a new seed
+function reseed(room: Room, seed: number): void {
+  room.state.seed = seed >>> 0;
+  room.state.randomState = room.state.seed;
 }
 
-export function addPlayer(name: string): { success: boolean; error?: string; token?: string; name?: string; avatarId?: string } {
-  const trimmedName = name.trim();
+// A generator of its own, seeded by the game's seed and the name, so a join
+// mid-game doesn't shift the tie draws and rerolls that follow
+function getRandomAvatarId(room: Room, name: string): string {
+  let seed = room.state.seed;
+  for (let i = 0; i < name.length; i++) {
+    seed = Math.imul(seed ^ name.charCodeAt(i), 0x01000193);
+  }
+  return pickRandom(AVATARS, createRandom(seed)).id;
+}
+
+export function generateRejoinPin(): string {
+  return Math.floor(Math.random() * 10000).toString().padStart(4, '0');
+}
+
+// Players, late joiners and spectators share one namespace
+function findPlayerByName(room: Room, name: string): Player | undefined {
+  const key = nameKey(name);
+  return [...room.state.players, ...room.state.waitingPlayers, ...room.state.spectators].find(p => nameKey(p.name) === key);
+}
 
-  if (!trimmedName) return { success: false, error: 'Navn kan ikke være tomt' };
-  if (gameState.players.length >= MAX_PLAYERS) return { success: false, error: `Maks ${MAX_PLAYERS} spillere` };
+export function addPlayer(room: Room, name: unknown): { success: boolean; error?: string; token?: string; name?: string; avatarId?: string } {
+  const { name: validName, error } = validatePlayerName(name);
+  if (!validName) return { success: false, error };
 
-  const nameLower = trimmedName.toLowerCase();
-  if (gameState.players.find(p => p.name.toLowerCase() === nameLower)) {
+  // Before the capacity check: this error opens the PIN rejoin on the phone, and a full room needs it most
+  if (findPlayerByName(room, validName)) {
     return { success: false, error: 'Navnet er allerede tatt' };
   }
 
-  if (gameState.phase !== 'lobby') {
+  if (room.state.players.length + room.state.waitingPlayers.length >= MAX_PLAYERS) {
+    return { success: false, error: `Maks ${MAX_PLAYERS} spillere` };
+  }
+
+  if (room.state.lobbyLocked) {
+    return { success: false, error: 'Rommet er låst' };
+  }
+
+  if (room.state.phase === 'gameover' || (room.state.phase !== 'lobby' && !room.state.allowLateJoin)) {
     return { success: false, error: 'Spillet har allerede startet' };
   }
 
   const token = generateToken();
-  const avatarId = getRandomAvatarId();
-  const player: Player = { name: trimmedName, avatarId };
+  const avatarId = getRandomAvatarId(room, validName);
+  const player: Player = { name: validName, avatarId };
+
+  room.tokenMap[token] = player;
+  if (room.state.phase === 'lobby') {
+    room.state.players.push(player);
+    assignToSmallestTeam(room, player.name);
+  } else {
+    room.state.waitingPlayers.push(player);
+  }
+
+  return { success: true, token, name: validName, avatarId };
+}
+
+// Spectators can join at any time and don't count towards MAX_PLAYERS
+export function addSpectator(room: Room, name: unknown): { success: boolean; error?: string; token?: string; name?: string; avatarId?: string } {
+  const { name: validName, error } = validatePlayerName(name);
+  if (!validName) return { success: false, error };
+
+  // Before the capacity check, as in addPlayer
+  if (findPlayerByName(room, validName)) {
+    return { success: false, error: 'Navnet er allerede tatt' };
+  }
+
+  if (room.state.spectators.length >= MAX_SPECTATORS) {
+    return { success: false, error: `Maks ${MAX_SPECTATORS} tilskuere` };
+  }
+
+  if (room.state.lobbyLocked) {
+    return { success: false, error: 'Rommet er låst' };
+  }
+
+  const token = generateToken();
+  const avatarId = getRandomAvatarId(room, validName);
+  const spectator: Player = { name: validName, avatarId };
+
+  room.tokenMap[token] = spectator;
+  room.state.spectators.push(spectator);
+
+  return { success: true, token, name: validName, avatarId };
+}
+
+function isSpectator(room: Room, token: string): boolean {
+  const name = room.tokenMap[token]?.name;
+  return room.state.spectators.some(s => s.name === name);
+}
+
+export function isTeamMode(room: Room): boolean {
+  return room.state.teams.length > 0;
+}
+
+// Who can be voted for: the teams in team mode, otherwise the seated players
+function getCandidates(room: Room): string[] {
+  return isTeamMode(room) ? room.state.teams.map(t => t.name) : room.state.players.map(p => p.name);
+}
+
+function getTeamOf(room: Room, playerName: string): Team | undefined {
+  return room.state.teams.find(t => t.members.includes(playerName));
+}
+
+// Players who arrive after the split go to the smallest team
+function assignToSmallestTeam(room: Room, playerName: string): void {
+  if (!isTeamMode(room) || getTeamOf(room, playerName)) return;
+  const smallest = room.state.teams.reduce((a, b) => (b.members.length < a.members.length ? b : a));
+  smallest.members.push(playerName);
+}
+
+function removeFromTeams(room: Room, playerName: string): void {
+  room.state.teams.forEach(t => {
+    t.members = t.members.filter(m => m !== playerName);
+  });
+}
+
+// Host splits the players into named teams; an empty list turns team mode off
+export function setTeams(room: Room, teams: unknown): { success: boolean; error?: string } {
+  if (room.state.phase !== 'lobby') return { success: false, error: 'Kan bare endre lag i lobbyen' };
+  if (!Array.isArray(teams)) return { success: false, error: 'Ugyldige lag' };
+
+  if (teams.length === 0) {
+    room.state.teams = [];
+    return { success: true };
+  }
+  if (teams.length < MIN_TEAMS || teams.length > MAX_TEAMS) {
+    return { success: false, error: `Velg mellom ${MIN_TEAMS} og ${MAX_TEAMS} lag` };
+  }
+
+  const cleaned: Team[] = [];
+  const assigned = new Set<string>();
+  for (let i = 0; i < teams.length; i++) {
+    const team = teams[i] as { name?: unknown; members?: unknown } | null;
+    const label = `Lag ${i + 1}`;
+
+    const { name, error } = validatePlayerName(team?.name);
+    if (!name) return { success: false, error: `${label}: ${error}` };
+    if (cleaned.some(t => nameKey(t.name) === nameKey(name))) {
+      return { success: false, error: `${label}: det finnes allerede et lag med dette navnet` };
+    }
+
+    const rawMembers: unknown[] = Array.isArray(team?.members) ? team!.members : [];
+    if (rawMembers.length === 0) return { success: false, error: `${label}: laget må ha minst én spiller` };
+
+    const members: string[] = [];
+    for (let j = 0; j < rawMembers.length; j++) {
+      const player = room.state.players.find(p => p.name === rawMembers[j]);
+      if (!player) return { success: false, error: `${label}: ukjent spiller` };
+      if (assigned.has(player.name)) return { success: false, error: `${player.name} er på mer enn ett lag` };
+      assigned.add(player.name);
+      members.push(player.name);
+    }
+
+    cleaned.push({ name, members });
+  }
+
+  if (room.state.players.some(p => !assigned.has(p.name))) {
+    return { success: false, error: 'Alle spillere må være på et lag' };
+  }
+
+  room.state.teams = cleaned;
+  return { success: true };
+}
+
+// Deal the players evenly onto teams with the given names, in an order drawn from the room's seed
+export function shuffleTeams(room: Room, names: unknown): { success: boolean; error?: string } {
+  if (room.state.phase !== 'lobby') return { success: false, error: 'Kan bare endre lag i lobbyen' };
+  if (!Array.isArray(names) || names.length < MIN_TEAMS || names.length > MAX_TEAMS) {
+    return { success: false, error: `Velg mellom ${MIN_TEAMS} og ${MAX_TEAMS} lag` };
+  }
+
+  const teams = names.map(name => ({ name, members: [] as string[] }));
+  shuffle(room.state.players, getRandom(room)).forEach((player, i) => teams[i % teams.length].members.push(player.name));
+  return setTeams(room, teams);
+}
+
+// Late joiners take their seat as a new question starts
+function admitWaitingPlayers(room: Room): void {
+  room.state.waitingPlayers.forEach(player => {
+    room.state.players.push(player);
+    room.state.winsByName[player.name] = 0;
+    room.state.totalVotesReceivedByName[player.name] = 0;
+    room.state.predictionPointsByName[player.name] = 0;
+    assignToSmallestTeam(room, player.name);
+  });
+  room.state.waitingPlayers = [];
+}
+
+// Give a player whose phone lost its token their seat back, using the PIN shown on the TV
+export function rejoinPlayer(room: Room, name: unknown, pin: unknown): { success: boolean; error?: string; token?: string; name?: string; avatarId?: string } {
+  const now = Date.now();
+  if (now < room.rejoin.lockedUntil) {
+    return { success: false, error: 'For mange forsøk - vent litt og prøv igjen' };
+  }
+
+  const player = typeof name === 'string' ? findPlayerByName(room, name) : undefined;
+  if (!player) return { success: false, error: 'Fant ingen spiller med dette navnet' };
+
+  if (pin !== room.rejoin.pin) {
+    room.rejoin.failures++;
+    if (room.rejoin.failures >= MAX_REJOIN_FAILURES) {
+      room.rejoin.failures = 0;
+      room.rejoin.lockedUntil = now + REJOIN_LOCKOUT_MS;
+    }
+    return { success: false, error: 'Feil PIN-kode' };
+  }
+  room.rejoin.failures = 0;
+  // Single use: whoever saw the PIN on the TV can't take the next seat with it
+  room.rejoin.pin = generateRejoinPin();
+  room.rejoin.version++;
+
+  // Retire the old token, carrying over a vote already cast on this question
+  const token = generateToken();
+  Object.keys(room.tokenMap).forEach(oldToken => {
+    if (room.tokenMap[oldToken].name !== player.name) return;
+    if (oldToken in room.state.votes) {
+      room.state.votes[token] = room.state.votes[oldToken];
+      delete room.state.votes[oldToken];
+    }
+    if (oldToken in room.state.firstRoundVotes) {
+      room.state.firstRoundVotes[token] = room.state.firstRoundVotes[oldToken];
+      delete room.state.firstRoundVotes[oldToken];
+    }
+    if (oldToken in room.state.audienceVotes) {
+      room.state.audienceVotes[token] = room.state.audienceVotes[oldToken];
+      delete room.state.audienceVotes[oldToken];
+    }
+    if (oldToken in room.state.predictions) {
+      room.state.predictions[token] = room.state.predictions[oldToken];
+      delete room.state.predictions[oldToken];
+    }
+    delete room.tokenMap[oldToken];
+  });
+  room.tokenMap[token] = { ...player };
+
+  return { success: true, token, name: player.name, avatarId: player.avatarId };
+}
+
+// Host removes a player; their phone's token stops working
+export function kickPlayer(room: Room, name: unknown): { success: boolean; error?: string } {
+  const player = typeof name === 'string' ? findPlayerByName(room, name) : undefined;
+  if (!player) return { success: false, error: 'Fant ikke spilleren' };
+
+  Object.keys(room.tokenMap).forEach(token => {
+    if (room.tokenMap[token].name !== player.name) return;
+    delete room.tokenMap[token];
+    delete room.state.votes[token];
+    delete room.state.firstRoundVotes[token];
+    delete room.state.audienceVotes[token];
+    delete room.state.predictions[token];
+  });
+  room.state.players = room.state.players.filter(p => p.name !== player.name);
+  room.state.waitingPlayers = room.state.waitingPlayers.filter(p => p.name !== player.name);
+  room.state.spectators = room.state.spectators.filter(p => p.name !== player.name);
+  removeFromTeams(room, player.name);
+  return { success: true };
+}
 
-  tokenMap[token] = player;
-  gameState.players.push(player);
+// Host replaces a player's name; only in the lobby, before any score is kept under it
+export function renamePlayer(room: Room, name: unknown, newName: unknown): { success: boolean; error?: string } {
+  if (room.state.phase !== 'lobby') return { success: false, error: 'Kan bare endre navn i lobbyen' };
 
-  return { success: true, token, name: trimmedName, avatarId };
+  const player = typeof name === 'string' ? findPlayerByName(room, name) : undefined;
+  if (!player) return { success: false, error: 'Fant ikke spilleren' };
+
+  const { name: validName, error } = validatePlayerName(newName);
+  if (!validName) return { success: false, error };
+
+  const existing = findPlayerByName(room, validName);
+  if (existing && existing !== player) return { success: false, error: 'Navnet er allerede tatt' };
+
+  const oldName = player.name;
+  [...room.state.players, ...room.state.waitingPlayers, ...room.state.spectators, ...Object.values(room.tokenMap)].forEach(p => {
+    if (p.name === oldName) p.name = validName;
+  });
+  room.state.teams.forEach(t => {
+    t.members = t.members.map(m => (m === oldName ? validName : m));
+  });
+  return { success: true };
 }
 
-export function removePlayer(token: string): void {
-  const playerData = tokenMap[token];
+export function setLobbyLocked(room: Room, locked: unknown): { success: boolean; error?: string } {
+  room.state.lobbyLocked = locked === true;
+  return { success: true };
+}
+
+export function removePlayer(room: Room, token: string): void {
+  const playerData = room.tokenMap[token];
   if (playerData) {
-    gameState.players = gameState.players.filter(p => p.name !== playerData.name);
-    delete tokenMap[token];
+    room.state.players = room.state.players.filter(p => p.name !== playerData.name);
+    room.state.waitingPlayers = room.state.waitingPlayers.filter(p => p.name !== playerData.name);
+    room.state.spectators = room.state.spectators.filter(p => p.name !== playerData.name);
+    removeFromTeams(room, playerData.name);
+    delete room.tokenMap[token];
+    delete room.state.votes[token];
+    delete room.state.firstRoundVotes[token];
+    delete room.state.audienceVotes[token];
+    delete room.state.predictions[token];
   }
 }
 
-export function validateToken(token: string): { valid: boolean; name?: string; avatarId?: string } {
-  const playerData = tokenMap[token];
+export function validateToken(room: Room, token: string): { valid: boolean; name?: string; avatarId?: string } {
+  const playerData = room.tokenMap[token];
   if (playerData) return { valid: true, name: playerData.name, avatarId: playerData.avatarId };
   return { valid: false };
 }
 
-export function getPlayerName(token: string): string | undefined {
-  return tokenMap[token]?.name;
+export function getPlayerName(room: Room, token: string): string | undefined {
+  return room.tokenMap[token]?.name;
 }
 
-export function setAvatar(token: string, avatarId: string): { success: boolean; error?: string } {
-  const playerData = tokenMap[token];
+// Only ever handed to the player's own token
+export function getPlayerStats(room: Room, token: string): { success: boolean; error?: string; stats?: PlayerStats } {
+  const playerData = room.tokenMap[token];
+  if (!playerData) return { success: false, error: 'Ugyldig spiller-token' };
+  if (isSpectator(room, token)) return { success: false, error: 'Tilskuere har ingen statistikk' };
+
+  const name = playerData.name;
+  const team = isTeamMode(room) ? getTeamOf(room, name)?.name ?? null : null;
+  const candidate = team ?? name;
+  const totalVotesReceived = team ? room.state.totalVotesReceivedByTeam[team] : room.state.totalVotesReceivedByName[name];
+
+  let votesThisQuestion: number | null = null;
+  const result = room.state.phase === 'reveal' ? room.state.revealResult : null;
+  if (result?.kind === 'most-likely') {
+    votesThisQuestion = result.voteCount[candidate] || 0;
+  } else if (result?.kind === 'rank') {
+    votesThisQuestion = result.ranking.find(entry => entry.name === candidate)?.firstPlaces || 0;
+  }
+
+  return {
+    success: true,
+    stats: {
+      name,
+      team,
+      wins: room.state.winsByName[name] || 0,
+      totalVotesReceived: totalVotesReceived || 0,
+      votesThisQuestion,
+      predictionPoints: room.state.predictionPointsByName[name] || 0,
+      questionsWon: room.state.playedQuestions
+        .filter(q => q.kind !== 'would-you-rather' && q.winner === candidate)
+        .map(q => q.text),
+    },
+  };
+}
+
+export function setAvatar(room: Room, token: string, avatarId: string): { success: boolean; error?: string } {
+  const playerData = room.tokenMap[token];
   if (!playerData) return { success: false, error: 'Ugyldig spiller-token' };
 
   if (!AVATARS.some(a => a.id === avatarId)) return { success: false, error: 'Ugyldig avatar' };
 
   playerData.avatarId = avatarId;
-  const playerIndex = gameState.players.findIndex(p => p.name === playerData.name);
-  if (playerIndex !== -1) gameState.players[playerIndex].avatarId = avatarId;
+  [...room.state.players, ...room.state.waitingPlayers, ...room.state.spectators].forEach(p => {
+    if (p.name === playerData.name) p.avatarId = avatarId;
+  });
 
   return { success: true };
 }
 
-export function setSettings(tone: QuestionTone, couplesSafe: boolean): { success: boolean; error?: string } {
-  if (gameState.phase !== 'lobby') return { success: false, error: 'Kan bare endre innstillinger i lobbyen' };
+// Lobby settings; only the fields given are changed
+// Unset fields are left as they are
+export function setSettings(room: Room, settings: Partial<Record<keyof RoomSettings, unknown>>): { success: boolean; error?: string } {
+  if (room.state.phase !== 'lobby') return { success: false, error: 'Kan bare endre innstillinger i lobbyen' };
 
+  const { tone, couplesSafe, roundLength, openBallot, allowSelfVote, allowVoteChange, allowLateJoin, predictionBonus, tieBreak } = settings;
   const validTones: QuestionTone[] = ['mild', 'spicy', 'drøy'];
-  if (!validTones.includes(tone)) return { success: false, error: 'Ugyldig tone' };
+  if (tone !== undefined && !validTones.includes(tone as QuestionTone)) return { success: false, error: 'Ugyldig tone' };
+  if (roundLength !== undefined && !ROUND_LENGTHS.includes(roundLength as RoundLength)) return { success: false, error: 'Ugyldig rundelengde' };
+
+  if (tone !== undefined) room.state.selectedTone = tone as QuestionTone;
+  if (couplesSafe !== undefined) room.state.couplesSafe = couplesSafe === true;
+  if (roundLength !== undefined) room.state.roundLength = roundLength as RoundLength;
+  if (openBallot !== undefined) room.state.openBallot = openBallot === true;
+  if (allowSelfVote !== undefined) room.state.allowSelfVote = allowSelfVote === true;
+  if (allowVoteChange !== undefined) room.state.allowVoteChange = allowVoteChange === true;
+  if (allowLateJoin !== undefined) room.state.allowLateJoin = allowLateJoin === true;
+  if (predictionBonus !== undefined) room.state.predictionBonus = predictionBonus === true;
+  if (tieBreak !== undefined) room.state.tieBreak = tieBreak === true;
+  return { success: true };
+}
 
-  gameState.selectedTone = tone;
-  gameState.couplesSafe = couplesSafe;
+export function setPacks(room: Room, packIds: unknown): { success: boolean; error?: string } {
+  if (room.state.phase !== 'lobby') return { success: false, error: 'Kan bare endre innstillinger i lobbyen' };
+  if (!Array.isArray(packIds) || packIds.length === 0) return { success: false, error: 'Velg minst én spørsmålspakke' };
+  if (packIds.some(id => typeof id !== 'string' || !getPack(id, room.purchaserId))) return { success: false, error: 'Ugyldig spørsmålspakke' };
+
+  room.state.selectedPackIds = Array.from(new Set(packIds as string[]));
   return { success: true };
 }
 
 // Smart question selection based on group size
-function selectQuestionsForGroupSize(questions: Question[], groupSize: GroupSize): Question[] {
+function selectQuestionsForGroupSize(questions: Question[], groupSize: GroupSize, random: Random): Question[] {
   // For large groups, prefer clearer/more direct questions (spicy/drøy tones)
   // For small groups, allow more subtle/personal questions (mild tones)
-  const shuffled = [...questions].sort(() => Math.random() - 0.5);
+  const shuffled = shuffle(questions, random);
 
+  // The sort is stable, so questions of the same tone keep their shuffled order
   if (groupSize === 'large') {
     // Sort to prefer spicy/drøy questions for large groups
     shuffled.sort((a, b) => {
       const scoreA = a.tone === 'drøy' ? 2 : a.tone === 'spicy' ? 1 : 0;
       const scoreB = b.tone === 'drøy' ? 2 : b.tone === 'spicy' ? 1 : 0;
-      // Add randomness to prevent deterministic ordering
-      return (scoreB - scoreA) + (Math.random() - 0.5) * 0.5;
+      return scoreB - scoreA;
     });
   } else if (groupSize === 'small') {
     // For small groups, prefer mild questions first (more personal)
     shuffled.sort((a, b) => {
       const scoreA = a.tone === 'mild' ? 2 : a.tone === 'spicy' ? 1 : 0;
       const scoreB = b.tone === 'mild' ? 2 : b.tone === 'spicy' ? 1 : 0;
-      return (scoreB - scoreA) + (Math.random() - 0.5) * 0.5;
+      return scoreB - scoreA;
     });
   }
   // Medium groups get balanced random selection
@@ -522,23 +1175,36 @@ function selectQuestionsForGroupSize(questions: Question[], groupSize: GroupSize
   return shuffled;
 }
 
-export function startGame(questions: Question[]): { success: boolean; error?: string } {
-  if (gameState.players.length < MIN_PLAYERS) return { success: false, error: `Trenger minst ${MIN_PLAYERS} spillere` };
+// "Hvem er mest sannsynlig..." becomes "Hvilket lag er mest sannsynlig..."; other phrasings are kept
+function toTeamQuestion(text: string): string {
+  return text.replace(/^Hvem\b/, 'Hvilket lag');
+}
 
-  if (gameState.gameMode === '18+' && !is18PlusUnlocked()) {
+// Draws start over from the room's seed, the one archived with the game; pass an earlier game's seed to replay it
+export function startGame(room: Room, questions: Question[], seed: number = room.state.seed): { success: boolean; error?: string } {
+  if (room.state.players.length < MIN_PLAYERS) return { success: false, error: `Trenger minst ${MIN_PLAYERS} spillere` };
+  if (room.state.teams.some(t => t.members.length === 0)) return { success: false, error: 'Hvert lag må ha minst én spiller' };
+
+  if (room.state.gameMode === '18+' && !is18PlusUnlocked(room)) {
     return { success: false, error: '18+ må låses opp først' };
   }
 
-  const groupSize = getGroupSize();
-  let selectedTexts: string[] = [];
+  reseed(room, seed);
+  const random = getRandom(room);
+  const groupSize = getGroupSize(room.state.players.length);
+  const { roundLength } = room.state;
+  let selected: Array<{ text: string; kind?: QuestionKind; options?: string[] }> = [];
 
-  if (gameState.gameMode === '18+') {
+  if (room.state.gameMode === '18+') {
     const adult18Questions = getDefault18PlusQuestions();
-    const shuffled = [...adult18Questions].sort(() => Math.random() - 0.5);
-    selectedTexts = shuffled.slice(0, 20).map(q => q.text);
+    if (roundLength !== 'endless' && adult18Questions.length < roundLength) {
+      return { success: false, error: 'For få spørsmål for denne rundelengden' };
+    }
+    const shuffled = shuffle(adult18Questions, random);
+    selected = roundLength === 'endless' ? shuffled : shuffled.slice(0, roundLength);
   } else {
     let filtered: Question[];
-    switch (gameState.selectedTone) {
+    switch (room.state.selectedTone) {
       case 'mild':
         filtered = questions.filter(q => q.tone === 'mild');
         break;
@@ -552,55 +1218,215 @@ export function startGame(questions: Question[]): { success: boolean; error?: st
         filtered = questions.filter(q => q.tone === 'mild' || q.tone === 'spicy');
     }
 
-    if (gameState.couplesSafe) filtered = filtered.filter(q => q.risk === 'safe');
-    if (filtered.length < 20) return { success: false, error: 'For få spørsmål i denne kombinasjonen' };
+    if (room.state.couplesSafe) filtered = filtered.filter(q => q.risk === 'safe');
+    if (filtered.length === 0 || (roundLength !== 'endless' && filtered.length < roundLength)) {
+      return { success: false, error: 'For få spørsmål i denne kombinasjonen' };
+    }
 
     // Apply smart question selection based on group size
-    const smartSorted = selectQuestionsForGroupSize(filtered, groupSize);
-    selectedTexts = smartSorted.slice(0, 20).map(q => q.text);
-  }
-
-  gameState.selectedQuestions = selectedTexts;
-  gameState.phase = 'question';
-  gameState.currentQuestion = 0;
-  gameState.votes = {};
-  gameState.questionStartTime = Date.now();
-  gameState.lastWinnerName = null;
-  gameState.recentWinners = [];
-  gameState.recentTargets = {};
-  gameState.rerollInfo = null;
-  gameState.winsByName = {};
-  gameState.totalVotesReceivedByName = {};
-  gameState.players.forEach(p => {
-    gameState.winsByName[p.name] = 0;
-    gameState.totalVotesReceivedByName[p.name] = 0;
+    const smartSorted = selectQuestionsForGroupSize(filtered, groupSize, random);
+    selected = roundLength === 'endless' ? smartSorted : smartSorted.slice(0, roundLength);
+  }
+
+  room.state.selectedQuestions = selected.map(q => (isTeamMode(room) ? toTeamQuestion(q.text) : q.text));
+  room.state.questionFormats = selected.map(q => (
+    q.kind === 'would-you-rather' ? { kind: q.kind, options: [...(q.options || [])] } : { kind: q.kind || 'most-likely' }
+  ));
+  room.state.revealResult = null;
+  room.state.playedQuestions = [];
+  room.state.gameStartedAt = Date.now();
+  room.state.phase = 'question';
+  room.state.currentQuestion = 0;
+  room.state.votes = {};
+  room.state.audienceVotes = {};
+  room.state.predictions = {};
+  room.state.firstRoundVotes = {};
+  room.state.tiedCandidates = [];
+  room.state.questionStartTime = Date.now();
+  room.state.lastWinnerName = null;
+  room.state.recentWinners = [];
+  room.state.recentTargets = {};
+  room.state.rerollInfo = null;
+  room.state.winsByName = {};
+  room.state.totalVotesReceivedByName = {};
+  room.state.predictionPointsByName = {};
+  room.state.players.forEach(p => {
+    room.state.winsByName[p.name] = 0;
+    room.state.totalVotesReceivedByName[p.name] = 0;
+    room.state.predictionPointsByName[p.name] = 0;
+  });
+  room.state.winsByTeam = {};
+  room.state.totalVotesReceivedByTeam = {};
+  room.state.teams.forEach(t => {
+    room.state.winsByTeam[t.name] = 0;
+    room.state.totalVotesReceivedByTeam[t.name] = 0;
   });
-  gameState.checkout = null;
-  gameState.isPaused = false;
-  gameState.pausedAt = null;
-  gameState.pauseAccumulatedMs = 0;
+  room.state.checkout = null;
+  room.state.isPaused = false;
+  room.state.pausedAt = null;
+  room.state.pauseAccumulatedMs = 0;
 
   return { success: true };
 }
 
-export function submitVote(token: string, votedFor: string): { success: boolean; error?: string } {
-  if (gameState.phase !== 'question') return { success: false, error: 'Ikke tid for stemming' };
-  if (!tokenMap[token]) return { success: false, error: 'Ugyldig spiller-token' };
-  if (gameState.votes[token]) return { success: false, error: 'Du har allerede stemt' };
+// Players vote on a question and again in its tie-break
+function isVotingPhase(room: Room): boolean {
+  return room.state.phase === 'question' || room.state.phase === 'tiebreak';
+}
+
+function isSeated(room: Room, token: string): boolean {
+  return room.state.players.some(p => p.name === room.tokenMap[token].name);
+}
 
-  const validPlayer = gameState.players.find(p => p.name === votedFor);
-  if (!validPlayer) return { success: false, error: 'Ugyldig spiller' };
+function hasLockedVote(room: Room, token: string): boolean {
+  return token in room.state.votes && !room.state.allowVoteChange;
+}
+
+// The format of the question being played; rooms saved before formats existed only had "most likely"
+function getCurrentFormat(room: Room): QuestionFormat {
+  return room.state.questionFormats[room.state.currentQuestion] || { kind: 'most-likely' };
+}
+
+function isOwnCandidate(room: Room, voterName: string, candidate: string): boolean {
+  return isTeamMode(room) ? getTeamOf(room, voterName)?.name === candidate : voterName === candidate;
+}
+
+// How many places a ranking has; fewer when there aren't enough candidates to fill them
+function getRankSize(room: Room, voterName: string | null): number {
+  const eligible = getCandidates(room).filter(c => voterName === null || room.state.allowSelfVote || !isOwnCandidate(room, voterName, c));
+  return Math.min(RANK_SIZE, eligible.length);
+}
+
+function checkCandidate(room: Room, voterName: string | null, votedFor: unknown): string | undefined {
+  const candidates = room.state.phase === 'tiebreak' ? room.state.tiedCandidates : getCandidates(room);
+  if (typeof votedFor !== 'string' || !candidates.includes(votedFor)) {
+    return isTeamMode(room) ? 'Ugyldig lag' : 'Ugyldig spiller';
+  }
+  if (voterName !== null && !room.state.allowSelfVote && isOwnCandidate(room, voterName, votedFor)) {
+    return isTeamMode(room) ? 'Du kan ikke stemme på ditt eget lag' : 'Du kan ikke stemme på deg selv';
+  }
+  return undefined;
+}
+
+// Check a vote against the current question's format; voterName is null for spectators
+function validateChoice(room: Room, voterName: string | null, votedFor: unknown): { choice?: VoteChoice; error?: string } {
+  const format = getCurrentFormat(room);
+
+  if (format.kind === 'would-you-rather') {
+    if (typeof votedFor !== 'string' || !format.options?.includes(votedFor)) return { error: 'Ugyldig svar' };
+    return { choice: votedFor };
+  }
+
+  if (format.kind === 'rank') {
+    const size = getRankSize(room, voterName);
+    if (!Array.isArray(votedFor) || votedFor.length !== size || new Set(votedFor).size !== size) {
+      return { error: `Velg ${size} i rekkefølge` };
+    }
+    for (let i = 0; i < votedFor.length; i++) {
+      const error = checkCandidate(room, voterName, votedFor[i]);
+      if (error) return { error };
+    }
+    return { choice: [...votedFor] };
+  }
+
+  const error = checkCandidate(room, voterName, votedFor);
+  return error ? { error } : { choice: votedFor as string };
+}
+
+export function submitVote(room: Room, token: string, votedFor: unknown): { success: boolean; error?: string } {
+  if (!isVotingPhase(room)) return { success: false, error: 'Ikke tid for stemming' };
+  if (!room.tokenMap[token]) return { success: false, error: 'Ugyldig spiller-token' };
+  if (isSpectator(room, token)) return { success: false, error: 'Du ser på og kan bare gi publikumsstemme' };
+  if (!isSeated(room, token)) return { success: false, error: 'Du er med fra neste spørsmål' };
+  if (hasLockedVote(room, token)) return { success: false, error: 'Du har allerede stemt' };
+
+  const { choice, error } = validateChoice(room, room.tokenMap[token].name, votedFor);
+  if (choice === undefined) return { success: false, error };
+
+  room.state.votes[token] = choice;
+  return { success: true };
+}
+
+// Skip the question - counts as having voted, but not towards any result
+export function passVote(room: Room, token: string): { success: boolean; error?: string } {
+  if (!isVotingPhase(room)) return { success: false, error: 'Ikke tid for stemming' };
+  if (!room.tokenMap[token]) return { success: false, error: 'Ugyldig spiller-token' };
+  if (isSpectator(room, token)) return { success: false, error: 'Du ser på og kan bare gi publikumsstemme' };
+  if (!isSeated(room, token)) return { success: false, error: 'Du er med fra neste spørsmål' };
+  if (hasLockedVote(room, token)) return { success: false, error: 'Du har allerede stemt' };
+
+  room.state.votes[token] = null;
+  return { success: true };
+}
+
+// Spectators answer the same question, but only for the audience tally on the reveal
+export function submitAudienceVote(room: Room, token: string, votedFor: unknown): { success: boolean; error?: string } {
+  if (room.state.phase !== 'question') return { success: false, error: 'Ikke tid for stemming' };
+  if (!room.tokenMap[token]) return { success: false, error: 'Ugyldig spiller-token' };
+  if (!isSpectator(room, token)) return { success: false, error: 'Bare tilskuere kan gi publikumsstemme' };
+  if (token in room.state.audienceVotes && !room.state.allowVoteChange) return { success: false, error: 'Du har allerede stemt' };
+
+  const { choice, error } = validateChoice(room, null, votedFor);
+  if (choice === undefined) return { success: false, error };
+
+  room.state.audienceVotes[token] = choice;
+  return { success: true };
+}
+
+// A side bet on who wins the question; can be changed until voting ends
+export function submitPrediction(room: Room, token: string, predictedWinner: unknown): { success: boolean; error?: string } {
+  if (!room.state.predictionBonus) return { success: false, error: 'Tipping er ikke slått på' };
+  if (room.state.phase !== 'question') return { success: false, error: 'Ikke tid for tipping' };
+  if (!room.tokenMap[token]) return { success: false, error: 'Ugyldig spiller-token' };
+  if (isSpectator(room, token)) return { success: false, error: 'Bare spillere kan tippe' };
+  if (!isSeated(room, token)) return { success: false, error: 'Du er med fra neste spørsmål' };
+  if (getCurrentFormat(room).kind === 'would-you-rather') return { success: false, error: 'Dette spørsmålet har ingen vinner å tippe på' };
+  if (typeof predictedWinner !== 'string' || !getCandidates(room).includes(predictedWinner)) {
+    return { success: false, error: isTeamMode(room) ? 'Ugyldig lag' : 'Ugyldig spiller' };
+  }
 
-  gameState.votes[token] = votedFor;
+  room.state.predictions[token] = predictedWinner;
   return { success: true };
 }
 
-export interface RevealResult {
+export interface Ballot {
+  voter: string;
+  // For a ranking, the first choice
+  target: string;
+}
+
+// Shared by every result shape
+interface ResultExtras {
+  // Only in open-ballot mode, by player name
+  ballots?: Ballot[];
+  // Spectators' votes; never affect the result. Only when someone in the audience voted
+  audience?: {
+    // Points for a ranking, otherwise votes
+    voteCount: Record<string, number>;
+    total: number;
+  };
+  // Only with the prediction bonus, when someone made a prediction
+  predictions?: {
+    // Names of the players who guessed the winner
+    correct: string[];
+    total: number;
+  };
+}
+
+export interface MostLikelyResult extends ResultExtras {
+  kind: 'most-likely';
   winner: string;
   winnerAvatarId: string;
   percentage: number;
   voteCount: Record<string, number>;
   rerollInfo: RerollInfo | null;
+  // Only when a tie went to a revote; the revote picks among the tied before any reroll
+  tieBreak?: {
+    candidates: string[];
+    voteCount: Record<string, number>;
+  };
+  // Team mode only: winner is a team name and these are its players
+  winnerMembers?: string[];
   // For large groups, condensed results
   condensedResults?: {
     top3: Array<{ name: string; avatarId: string; votes: number; percentage: number }>;
@@ -609,79 +1435,171 @@ export interface RevealResult {
   };
 }
 
-export function endVoting(): RevealResult {
-  gameState.rerollInfo = null;
+export interface WouldYouRatherResult extends ResultExtras {
+  kind: 'would-you-rather';
+  options: Array<{ text: string; votes: number; percentage: number }>;
+}
 
-  const voteCount: Record<string, number> = {};
-  gameState.players.forEach(p => voteCount[p.name] = 0);
+export interface RankingEntry {
+  name: string;
+  points: number;
+  firstPlaces: number;
+}
 
-  Object.values(gameState.votes).forEach(votedFor => {
-    if (voteCount[votedFor] !== undefined) {
-      voteCount[votedFor]++;
-      gameState.totalVotesReceivedByName[votedFor] = (gameState.totalVotesReceivedByName[votedFor] || 0) + 1;
+export interface RankingResult extends ResultExtras {
+  kind: 'rank';
+  winner: string;
+  winnerAvatarId: string;
+  // Best first; RANK_SIZE points for a first place, one less for each place after
+  ranking: RankingEntry[];
+  winnerMembers?: string[];
+}
+
+export type RevealResult = MostLikelyResult | WouldYouRatherResult | RankingResult;
+
+// Points per candidate: one per vote, or by position in a ranking
+function tallyChoices(candidates: string[], choices: VoteChoice[]): Record<string, number> {
+  const tally: Record<string, number> = {};
+  candidates.forEach(name => tally[name] = 0);
+  choices.forEach(choice => {
+    if (Array.isArray(choice)) {
+      choice.forEach((name, i) => {
+        if (tally[name] !== undefined) tally[name] += RANK_SIZE - i;
+      });
+    } else if (tally[choice] !== undefined) {
+      tally[choice]++;
     }
   });
+  return tally;
+}
+
+// Count a question's win; a team's win also counts for each of its players
+function recordWin(room: Room, winner: string): string[] | undefined {
+  room.state.lastWinnerName = winner;
+  room.state.recentWinners.push(winner);
+  if (room.state.recentWinners.length > 3) room.state.recentWinners.shift();
+  room.state.recentTargets[winner] = (room.state.recentTargets[winner] || 0) + 1;
+
+  if (!isTeamMode(room)) {
+    room.state.winsByName[winner] = (room.state.winsByName[winner] || 0) + 1;
+    return undefined;
+  }
+
+  const members = [...(room.state.teams.find(t => t.name === winner)?.members || [])];
+  room.state.winsByTeam[winner] = (room.state.winsByTeam[winner] || 0) + 1;
+  members.forEach(name => {
+    room.state.winsByName[name] = (room.state.winsByName[name] || 0) + 1;
+  });
+  return members;
+}
+
+function getWinnerAvatarId(room: Room, winner: string, winnerMembers: string[] | undefined): string {
+  const winnerPlayer = room.state.players.find(p => p.name === (winnerMembers ? winnerMembers[0] : winner));
+  return winnerPlayer?.avatarId || AVATARS[0].id;
+}
+
+function addVotesReceived(room: Room, name: string, count: number): void {
+  const totalVotesReceived = isTeamMode(room) ? room.state.totalVotesReceivedByTeam : room.state.totalVotesReceivedByName;
+  totalVotesReceived[name] = (totalVotesReceived[name] || 0) + count;
+}
+
+// The question's own votes - after a tie-break, the ones cast before it
+function getRoundVotes(room: Room): Record<string, VoteChoice | null> {
+  return room.state.phase === 'tiebreak' ? room.state.firstRoundVotes : room.state.votes;
+}
+
+function countVotes(candidates: string[], votes: Record<string, VoteChoice | null>): { castVotes: string[]; voteCount: Record<string, number> } {
+  const castVotes = Object.values(votes).filter((v): v is string => typeof v === 'string');
+  return { castVotes, voteCount: tallyChoices(candidates, castVotes) };
+}
+
+// Everyone sharing the most votes; every candidate when nobody got any
+function getTopCandidates(voteCount: Record<string, number>): string[] {
+  let maxVotes = 0;
+  Object.values(voteCount).forEach(count => {
+    if (count > maxVotes) maxVotes = count;
+  });
+  return Object.keys(voteCount).filter(name => voteCount[name] === maxVotes);
+}
+
+// Move the question into a revote between the tied; the round's votes are set aside until then
+function startTieBreak(room: Room, tied: string[]): void {
+  room.state.firstRoundVotes = room.state.votes;
+  room.state.votes = {};
+  room.state.tiedCandidates = tied;
+  room.state.phase = 'tiebreak';
+  room.state.questionStartTime = Date.now();
+  room.state.isPaused = false;
+  room.state.pausedAt = null;
+  room.state.pauseAccumulatedMs = 0;
+}
+
+function tallyMostLikely(room: Room): MostLikelyResult {
+  const teamMode = isTeamMode(room);
+  const { castVotes, voteCount } = countVotes(getCandidates(room), getRoundVotes(room));
+  Object.entries(voteCount).forEach(([name, count]) => addVotesReceived(room, name, count));
 
   let maxVotes = 0;
   Object.values(voteCount).forEach(count => {
     if (count > maxVotes) maxVotes = count;
   });
 
-  const topCandidates = Object.entries(voteCount)
-    .filter(([, count]) => count === maxVotes)
-    .map(([playerName]) => playerName);
+  const topCandidates = getTopCandidates(voteCount);
 
-  let provisionalWinner = topCandidates[Math.floor(Math.random() * topCandidates.length)];
+  // A revote narrows the tie down; a tie in the revote is still drawn
+  let leaders = topCandidates;
+  let tieBreak: MostLikelyResult['tieBreak'];
+  if (room.state.phase === 'tiebreak') {
+    const revote = countVotes(room.state.tiedCandidates, room.state.votes);
+    leaders = getTopCandidates(revote.voteCount);
+    tieBreak = { candidates: [...room.state.tiedCandidates], voteCount: revote.voteCount };
+  }
+
+  const random = getRandom(room);
+  let provisionalWinner = pickRandom(leaders, random);
   let finalWinner = provisionalWinner;
 
-  const totalVotes = Object.values(gameState.votes).length;
-  const questionsRemaining = 20 - gameState.currentQuestion - 1;
+  const totalVotes = castVotes.length;
+  const questionsRemaining = room.state.selectedQuestions.length - room.state.currentQuestion - 1;
 
-  if (gameState.lastWinnerName !== null && provisionalWinner === gameState.lastWinnerName && topCandidates.length > 1) {
-    const otherCandidates = topCandidates.filter(name => name !== gameState.lastWinnerName);
+  // Rerolls spare individuals from being picked on; a team simply takes the top spot
+  if (!teamMode && room.state.lastWinnerName !== null && provisionalWinner === room.state.lastWinnerName && topCandidates.length > 1) {
+    const otherCandidates = topCandidates.filter(name => name !== room.state.lastWinnerName);
     if (otherCandidates.length > 0) {
-      finalWinner = otherCandidates[Math.floor(Math.random() * otherCandidates.length)];
-      gameState.rerollInfo = { reason: 'cooldown', originalWinner: provisionalWinner, finalWinner };
+      finalWinner = pickRandom(otherCandidates, random);
+      room.state.rerollInfo = { reason: 'cooldown', originalWinner: provisionalWinner, finalWinner };
     }
   }
 
-  if (gameState.rerollInfo === null && totalVotes >= 3 && questionsRemaining >= 4) {
-    const currentTargetCount = gameState.recentTargets[finalWinner] || 0;
+  if (!teamMode && room.state.rerollInfo === null && totalVotes >= 3 && questionsRemaining >= 4) {
+    const currentTargetCount = room.state.recentTargets[finalWinner] || 0;
     if (currentTargetCount >= 2) {
       const nearTopCandidates = Object.entries(voteCount)
         .filter(([name, count]) => count === maxVotes - 1 && name !== finalWinner)
         .map(([playerName]) => playerName);
 
       if (nearTopCandidates.length > 0) {
-        const newWinner = nearTopCandidates[Math.floor(Math.random() * nearTopCandidates.length)];
-        gameState.rerollInfo = { reason: 'over-targeted', originalWinner: finalWinner, finalWinner: newWinner };
+        const newWinner = pickRandom(nearTopCandidates, random);
+        room.state.rerollInfo = { reason: 'over-targeted', originalWinner: finalWinner, finalWinner: newWinner };
         finalWinner = newWinner;
       }
     }
   }
 
-  gameState.lastWinnerName = finalWinner;
-  gameState.recentWinners.push(finalWinner);
-  if (gameState.recentWinners.length > 3) gameState.recentWinners.shift();
-  gameState.recentTargets[finalWinner] = (gameState.recentTargets[finalWinner] || 0) + 1;
-  gameState.winsByName[finalWinner] = (gameState.winsByName[finalWinner] || 0) + 1;
-
-  const winnerPlayer = gameState.players.find(p => p.name === finalWinner);
-  const winnerAvatarId = winnerPlayer?.avatarId || AVATARS[0].id;
+  const winnerMembers = recordWin(room, finalWinner);
+  const winnerAvatarId = getWinnerAvatarId(room, finalWinner, winnerMembers);
   const percentage = totalVotes > 0 ? Math.round((maxVotes / totalVotes) * 100) : 0;
 
-  gameState.phase = 'reveal';
-
   // Create condensed results for large groups
-  const groupSize = getGroupSize();
-  let condensedResults: RevealResult['condensedResults'] | undefined;
+  const groupSize = getGroupSize(room.state.players.length);
+  let condensedResults: MostLikelyResult['condensedResults'] | undefined;
 
-  if (groupSize === 'large') {
+  if (groupSize === 'large' && !teamMode) {
     const sorted = Object.entries(voteCount)
       .sort((a, b) => b[1] - a[1]);
 
     const top3 = sorted.slice(0, 3).map(([name, votes]) => {
-      const player = gameState.players.find(p => p.name === name);
+      const player = room.state.players.find(p => p.name === name);
       return {
         name,
         avatarId: player?.avatarId || AVATARS[0].id,
@@ -696,82 +1614,264 @@ export function endVoting(): RevealResult {
     condensedResults = { top3, othersVotes, othersPercentage };
   }
 
-  return { winner: finalWinner, winnerAvatarId, percentage, voteCount, rerollInfo: gameState.rerollInfo, condensedResults };
+  return { kind: 'most-likely', winner: finalWinner, winnerAvatarId, percentage, voteCount, rerollInfo: room.state.rerollInfo, tieBreak, condensedResults, winnerMembers };
+}
+
+// A poll has no winner, so nobody's score changes
+function tallyPoll(room: Room, options: string[]): WouldYouRatherResult {
+  const answers = Object.values(room.state.votes).filter((v): v is string => typeof v === 'string');
+  const counts = tallyChoices(options, answers);
+  return {
+    kind: 'would-you-rather',
+    options: options.map(text => ({
+      text,
+      votes: counts[text],
+      percentage: answers.length > 0 ? Math.round((counts[text] / answers.length) * 100) : 0,
+    })),
+  };
+}
+
+// Most points wins; a first place counts as a vote received
+function tallyRanking(room: Room): RankingResult {
+  const candidates = getCandidates(room);
+  const rankings = Object.values(room.state.votes).filter((v): v is string[] => Array.isArray(v));
+  const points = tallyChoices(candidates, rankings);
+
+  const firstPlaces: Record<string, number> = {};
+  candidates.forEach(name => firstPlaces[name] = 0);
+  rankings.forEach(ranking => {
+    if (firstPlaces[ranking[0]] !== undefined) firstPlaces[ranking[0]]++;
+  });
+  Object.entries(firstPlaces).forEach(([name, count]) => addVotesReceived(room, name, count));
+
+  const ranking = candidates
+    .map(name => ({ name, points: points[name], firstPlaces: firstPlaces[name] }))
+    .sort((a, b) => b.points - a.points || b.firstPlaces - a.firstPlaces);
+
+  // A tie at the top is drawn, as in a regular vote
+  const tied = ranking.filter(e => e.points === ranking[0].points && e.firstPlaces === ranking[0].firstPlaces);
+  const winner = pickRandom(tied, getRandom(room)).name;
+  ranking.sort((a, b) => Number(b.name === winner) - Number(a.name === winner));
+
+  const winnerMembers = recordWin(room, winner);
+  return { kind: 'rank', winner, winnerAvatarId: getWinnerAvatarId(room, winner, winnerMembers), ranking, winnerMembers };
+}
+
+// Give the prediction bonus to everyone who guessed the final winner
+function scorePredictions(room: Room, winner: string): ResultExtras['predictions'] {
+  const entries = Object.entries(room.state.predictions).filter(([token]) => room.tokenMap[token] !== undefined);
+  if (entries.length === 0) return undefined;
+
+  const correct: string[] = [];
+  entries.forEach(([token, predicted]) => {
+    if (predicted !== winner) return;
+    const name = room.tokenMap[token].name;
+    room.state.predictionPointsByName[name] = (room.state.predictionPointsByName[name] || 0) + PREDICTION_POINTS;
+    correct.push(name);
+  });
+  return { correct, total: entries.length };
+}
+
+function toPlayedQuestion(room: Room, result: RevealResult): PlayedQuestion {
+  const text = room.state.selectedQuestions[room.state.currentQuestion];
+  if (result.kind === 'most-likely') {
+    const played: PlayedQuestion = { text, kind: result.kind, winner: result.winner, voteCount: { ...result.voteCount } };
+    if (result.rerollInfo) played.rerolledFrom = result.rerollInfo.originalWinner;
+    return played;
+  }
+  if (result.kind === 'rank') {
+    const voteCount: Record<string, number> = {};
+    result.ranking.forEach(entry => voteCount[entry.name] = entry.points);
+    return { text, kind: result.kind, winner: result.winner, voteCount };
+  }
+
+  const voteCount: Record<string, number> = {};
+  result.options.forEach(option => voteCount[option.text] = option.votes);
+  const top = getTopCandidates(voteCount);
+  return { text, kind: result.kind, winner: top.length === 1 ? top[0] : null, voteCount };
 }
 
-export function nextQuestion(): void {
-  gameState.rerollInfo = null;
+// Idempotent: once the question is revealed, further calls return the same result.
+// With tie-breaks on, a tie at the top starts the revote instead and returns null.
+export function endVoting(room: Room): RevealResult | null {
+  if (!isVotingPhase(room)) return room.state.revealResult;
+
+  const format = getCurrentFormat(room);
+  if (room.state.phase === 'question' && room.state.tieBreak && format.kind === 'most-likely') {
+    const { castVotes, voteCount } = countVotes(getCandidates(room), room.state.votes);
+    const tied = getTopCandidates(voteCount);
+    if (castVotes.length > 0 && tied.length > 1) {
+      startTieBreak(room, tied);
+      return null;
+    }
+  }
 
-  if (gameState.currentQuestion >= 19) {
-    gameState.phase = 'gameover';
-    gameState.isPaused = false;
-    gameState.pausedAt = null;
-    gameState.pauseAccumulatedMs = 0;
-    if (gameState.gameMode === 'standard' && !is18PlusUnlocked()) {
-      gameState.showUpsell = true;
+  room.state.rerollInfo = null;
+  const roundVotes = getRoundVotes(room);
+  let result: RevealResult;
+  if (format.kind === 'would-you-rather') {
+    result = tallyPoll(room, format.options || []);
+  } else if (format.kind === 'rank') {
+    result = tallyRanking(room);
+  } else {
+    result = tallyMostLikely(room);
+  }
+
+  room.state.phase = 'reveal';
+  room.state.firstRoundVotes = {};
+  room.state.tiedCandidates = [];
+
+  if (room.state.openBallot) {
+    result.ballots = Object.entries(roundVotes)
+      .filter((entry): entry is [string, VoteChoice] => entry[1] !== null && room.tokenMap[entry[0]] !== undefined)
+      .map(([token, choice]) => ({ voter: room.tokenMap[token].name, target: Array.isArray(choice) ? choice[0] : choice }));
+  }
+
+  const audienceVotes = Object.values(room.state.audienceVotes);
+  if (audienceVotes.length > 0) {
+    const choices = format.kind === 'would-you-rather' ? format.options || [] : getCandidates(room);
+    result.audience = { voteCount: tallyChoices(choices, audienceVotes), total: audienceVotes.length };
+  }
+
+  if (result.kind !== 'would-you-rather') result.predictions = scorePredictions(room, result.winner);
+
+  room.state.revealResult = result;
+  room.state.playedQuestions.push(toPlayedQuestion(room, result));
+  return room.state.revealResult;
+}
+
+export function nextQuestion(room: Room): void {
+  // Only advance from a reveal, so a duplicate request can't skip a question
+  if (room.state.phase !== 'reveal') return;
+
+  room.state.rerollInfo = null;
+
+  if (isLastQuestion(room)) {
+    room.state.phase = 'gameover';
+    room.state.isPaused = false;
+    room.state.pausedAt = null;
+    room.state.pauseAccumulatedMs = 0;
+    if (room.state.gameMode === 'standard' && !is18PlusUnlocked(room)) {
+      room.state.showUpsell = true;
     }
+    archiveGame(room);
     return;
   }
 
-  gameState.currentQuestion++;
-  gameState.votes = {};
-  gameState.phase = 'question';
-  gameState.questionStartTime = Date.now();
-  gameState.isPaused = false;
-  gameState.pausedAt = null;
-  gameState.pauseAccumulatedMs = 0;
+  room.state.currentQuestion++;
+  room.state.votes = {};
+  room.state.audienceVotes = {};
+  room.state.predictions = {};
+  room.state.firstRoundVotes = {};
+  room.state.tiedCandidates = [];
+  room.state.revealResult = null;
+  admitWaitingPlayers(room);
+  room.state.phase = 'question';
+  room.state.questionStartTime = Date.now();
+  room.state.isPaused = false;
+  room.state.pausedAt = null;
+  room.state.pauseAccumulatedMs = 0;
+}
+
+// Keep the finished game for the hosting TV's /history; a game ended before any reveal isn't kept
+function archiveGame(room: Room): void {
+  const summary = getFinaleStats(room);
+  if (!room.purchaserId || !summary || room.state.playedQuestions.length === 0) return;
+
+  archiveSession({
+    hostId: room.purchaserId,
+    roomCode: room.code,
+    gameMode: room.state.gameMode,
+    startedAt: room.state.gameStartedAt ?? Date.now(),
+    finishedAt: Date.now(),
+    players: room.state.players.map(p => ({ ...p })),
+    teams: room.state.teams.map(t => ({ ...t, members: [...t.members] })),
+    questions: [...room.state.playedQuestions],
+    summary,
+    seed: room.state.seed,
+  });
+}
+
+// True on the final question - for endless rounds, once the question pool runs out
+function isLastQuestion(room: Room): boolean {
+  return room.state.currentQuestion >= room.state.selectedQuestions.length - 1;
+}
+
+// Host stops the game early - the only way an endless round ends before its pool runs out
+export function endGame(room: Room): { success: boolean; error?: string } {
+  if (!isVotingPhase(room) && room.state.phase !== 'reveal') {
+    return { success: false, error: 'Kan bare avslutte under spill' };
+  }
+
+  room.state.rerollInfo = null;
+  room.state.isPaused = false;
+  room.state.pausedAt = null;
+  room.state.pauseAccumulatedMs = 0;
+  room.state.phase = 'gameover';
+  if (room.state.gameMode === 'standard' && !is18PlusUnlocked(room)) {
+    room.state.showUpsell = true;
+  }
+  archiveGame(room);
+  return { success: true };
 }
 
-export function setPhase(phase: GamePhase): void {
-  gameState.phase = phase;
-  if (phase === 'question') gameState.questionStartTime = Date.now();
+export function setPhase(room: Room, phase: GamePhase): void {
+  room.state.phase = phase;
+  if (phase === 'question') room.state.questionStartTime = Date.now();
 }
 
-export function pauseGame(): { success: boolean; error?: string } {
-  if (gameState.phase !== 'question' && gameState.phase !== 'reveal') {
+export function pauseGame(room: Room): { success: boolean; error?: string } {
+  if (!isVotingPhase(room) && room.state.phase !== 'reveal') {
     return { success: false, error: 'Kan bare pause under spørsmål eller resultat' };
   }
-  if (gameState.isPaused) {
+  if (room.state.isPaused) {
     return { success: false, error: 'Spillet er allerede pauset' };
   }
-  gameState.isPaused = true;
-  gameState.pausedAt = Date.now();
+  room.state.isPaused = true;
+  room.state.pausedAt = Date.now();
   return { success: true };
 }
 
-export function resumeGame(): { success: boolean; error?: string } {
-  if (!gameState.isPaused) {
+export function resumeGame(room: Room): { success: boolean; error?: string } {
+  if (!room.state.isPaused) {
     return { success: false, error: 'Spillet er ikke pauset' };
   }
-  if (gameState.pausedAt !== null) {
-    gameState.pauseAccumulatedMs += Date.now() - gameState.pausedAt;
+  if (room.state.pausedAt !== null) {
+    room.state.pauseAccumulatedMs += Date.now() - room.state.pausedAt;
   }
-  gameState.isPaused = false;
-  gameState.pausedAt = null;
+  room.state.isPaused = false;
+  room.state.pausedAt = null;
   return { success: true };
 }
 
-export function nextQuestionNow(): { success: boolean; error?: string } {
-  if (gameState.phase !== 'question' && gameState.phase !== 'reveal') {
+export function nextQuestionNow(room: Room): { success: boolean; error?: string } {
+  if (!isVotingPhase(room) && room.state.phase !== 'reveal') {
     return { success: false, error: 'Kan bare gå til neste spørsmål under spill' };
   }
 
-  gameState.rerollInfo = null;
-  gameState.isPaused = false;
-  gameState.pausedAt = null;
-  gameState.pauseAccumulatedMs = 0;
+  room.state.rerollInfo = null;
+  room.state.isPaused = false;
+  room.state.pausedAt = null;
+  room.state.pauseAccumulatedMs = 0;
 
-  if (gameState.currentQuestion >= 19) {
-    gameState.phase = 'gameover';
-    if (gameState.gameMode === 'standard' && !is18PlusUnlocked()) {
-      gameState.showUpsell = true;
+  if (isLastQuestion(room)) {
+    room.state.phase = 'gameover';
+    if (room.state.gameMode === 'standard' && !is18PlusUnlocked(room)) {
+      room.state.showUpsell = true;
     }
+    archiveGame(room);
     return { success: true };
   }
 
-  gameState.currentQuestion++;
-  gameState.votes = {};
-  gameState.phase = 'question';
-  gameState.questionStartTime = Date.now();
+  room.state.currentQuestion++;
+  room.state.votes = {};
+  room.state.audienceVotes = {};
+  room.state.predictions = {};
+  room.state.firstRoundVotes = {};
+  room.state.tiedCandidates = [];
+  room.state.revealResult = null;
+  admitWaitingPlayers(room);
+  room.state.phase = 'question';
+  room.state.questionStartTime = Date.now();
   return { success: true };
 }
@@ -0,0 +1,73 @@
+// lib/history.ts
+// Finished games, archived when a game reaches the finale so the group can
+// look back at earlier parties on /history. A game belongs to the TV that
+// hosted it (its purchaser id, see lib/entitlements.ts) and is only listed there.
+
+import crypto from 'crypto';
+import type { FinaleSummary, GameMode, PlayedQuestion, Player, Team } from './gameState';
+import { Store, createStoreFromEnv } from './storage';
+
+// Oldest games are dropped once a TV has this many
+export const MAX_SESSIONS_PER_HOST = 50;
+
+export interface GameSession {
+  id: string;
+  // Purchaser id of the TV that hosted the game
+  hostId: string;
+  roomCode: string;
+  gameMode: GameMode;
+  startedAt: number;
+  finishedAt: number;
+  players: Player[];
+  // Empty unless the game was played in teams
+  teams: Team[];
+  questions: PlayedQuestion[];
+  summary: FinaleSummary;
+  // Replays the game's draws when passed to startGame
+  seed: number;
+}
+
+interface HistoryRegistry {
+  sessions: GameSession[];
+  store: Store<GameSession>;
+}
+
+function createRegistry(): HistoryRegistry {
+  const store = createStoreFromEnv<GameSession>('history');
+  return { sessions: store.load(), store };
+}
+
+// Kept on globalThis so every route bundle shares one archive - see lib/rooms.ts
+const globalForHistory = globalThis as typeof globalThis & { historyRegistry?: HistoryRegistry };
+const registry: HistoryRegistry = globalForHistory.historyRegistry ??= createRegistry();
+
+function persistHistory(): void {
+  try {
+    registry.store.save(registry.sessions);
+  } catch (error) {
+    console.error('Failed to persist game history', error);
+  }
+}
+
+export function archiveSession(session: Omit<GameSession, 'id'>): GameSession {
+  const archived: GameSession = { ...session, id: 'game_' + crypto.randomBytes(8).toString('hex') };
+  registry.sessions.push(archived);
+
+  const hostSessions = registry.sessions.filter(s => s.hostId === session.hostId);
+  if (hostSessions.length > MAX_SESSIONS_PER_HOST) {
+    const dropped = hostSessions
+      .sort((a, b) => a.finishedAt - b.finishedAt)
+      .slice(0, hostSessions.length - MAX_SESSIONS_PER_HOST);
+    registry.sessions = registry.sessions.filter(s => !dropped.includes(s));
+  }
+
+  persistHistory();
+  return archived;
+}
+
+// Newest first
+export function getSessionsForHost(hostId: string): GameSession[] {
+  return registry.sessions
+    .filter(s => s.hostId === hostId)
+    .sort((a, b) => b.finishedAt - a.finishedAt);
+}
@@ -0,0 +1,240 @@
+// lib/payments.ts
+// Payment providers for the 18+ unlock. A checkout opens a session at the
+// provider, and the room is only unlocked when the provider calls our webhook
+// (app/api/payments/webhook) with a correctly signed event. Choose with
+// PAYMENT_PROVIDER (only "fake" for now) - without it there is no checkout.
+// The fake provider lets anyone pay, so it never runs with NODE_ENV=production.
+// Webhooks are signed with PAYMENT_WEBHOOK_SECRET.
+//
+// Each provider session is recorded with who is buying, apart from the room:
+// the room may start a game, reset or expire before the webhook arrives, and
+// a paid purchase must still be granted.
+
+import crypto from 'crypto';
+import { CheckoutStatus, createCheckout, markCheckoutPaid, markCheckoutCanceled } from './gameState';
+import { grantEntitlement } from './entitlements';
+import { Room, getRoom, notifyRoom } from './rooms';
+import { Store, createStoreFromEnv } from './storage';
+
+export const SIGNATURE_HEADER = 'x-payment-signature';
+export const UNLOCK_PRICE_NOK = 69;
+
+export interface PaymentSessionRequest {
+  roomCode: string;
+  checkoutId: string;
+  amountNok: number;
+  description: string;
+}
+
+export interface PaymentSession {
+  sessionId: string;
+  // Where the buyer's phone is sent to pay
+  redirectUrl: string;
+}
+
+export interface PaymentProvider {
+  name: string;
+  createSession(request: PaymentSessionRequest): Promise<PaymentSession>;
+}
+
+export type PaymentEventType = 'checkout.paid' | 'checkout.canceled';
+
+export interface PaymentEvent {
+  type: PaymentEventType;
+  sessionId: string;
+  roomCode: string;
+  checkoutId: string;
+}
+
+// A provider session and what paying it buys
+export interface CheckoutRecord {
+  sessionId: string;
+  checkoutId: string;
+  // Gets the entitlement - see getPurchaserId
+  purchaserId: string;
+  // Where the checkout was started; only used to show the outcome there
+  roomCode: string;
+  status: CheckoutStatus;
+  createdAt: number;
+}
+
+interface FakeSession extends PaymentSessionRequest {
+  sessionId: string;
+  completed: boolean;
+}
+
+interface PaymentRegistry {
+  // Keyed by provider session id
+  checkouts: Record<string, CheckoutRecord>;
+  store: Store<CheckoutRecord>;
+  fakeSessions: Record<string, FakeSession>;
+  // Used when PAYMENT_WEBHOOK_SECRET is unset; only accepted by the fake provider
+  localSecret: string;
+}
+
+function createRegistry(): PaymentRegistry {
+  const store = createStoreFromEnv<CheckoutRecord>('checkouts');
+  const checkouts: Record<string, CheckoutRecord> = {};
+  store.load().forEach(record => {
+    checkouts[record.sessionId] = record;
+  });
+  return { checkouts, store, fakeSessions: {}, localSecret: crypto.randomBytes(32).toString('hex') };
+}
+
+// Kept on globalThis so every route bundle shares one registry - see lib/rooms.ts
+const globalForPayments = globalThis as typeof globalThis & { paymentRegistry?: PaymentRegistry };
+const registry: PaymentRegistry = globalForPayments.paymentRegistry ??= createRegistry();
+
+function persistCheckouts(): void {
+  try {
+    registry.store.save(Object.values(registry.checkouts));
+  } catch (error) {
+    console.error('Failed to persist checkouts', error);
+  }
+}
+
+// Stands in for Vipps/Stripe: the hosted payment page is our own /checkout
+const fakeProvider: PaymentProvider = {
+  name: 'fake',
+  async createSession(request) {
+    const sessionId = 'fake_' + crypto.randomBytes(12).toString('hex');
+    registry.fakeSessions[sessionId] = { ...request, sessionId, completed: false };
+    return { sessionId, redirectUrl: `/checkout?session=${sessionId}` };
+  },
+};
+
+const providers: Record<string, PaymentProvider> = {
+  fake: fakeProvider,
+};
+
+export function getPaymentProvider(): PaymentProvider | undefined {
+  const name = process.env.PAYMENT_PROVIDER;
+  if (!name) return undefined;
+  if (name === 'fake' && process.env.NODE_ENV === 'production') return undefined;
+  return providers[name];
+}
+
+export function isFakeProvider(): boolean {
+  return getPaymentProvider() === fakeProvider;
+}
+
+function getWebhookSecret(): string | undefined {
+  if (process.env.PAYMENT_WEBHOOK_SECRET) return process.env.PAYMENT_WEBHOOK_SECRET;
+  return isFakeProvider() ? registry.localSecret : undefined;
+}
+
+export function signPayload(rawBody: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+}
+
+function verifySignature(rawBody: string, signature: string | null): boolean {
+  const secret = getWebhookSecret();
+  if (!secret || !signature) return false;
+
+  const expected = Buffer.from(signPayload(rawBody, secret), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+// Open a checkout in the room and a matching session at the provider
+export async function startCheckout(room: Room): Promise<{ success: boolean; error?: string; checkoutId?: string; checkoutUrl?: string }> {
+  const provider = getPaymentProvider();
+  if (!provider) return { success: false, error: 'Betaling er ikke satt opp' };
+
+  const result = createCheckout(room);
+  if (!result.success || !result.checkoutId || !room.state.checkout) return result;
+  const { purchaserId } = room.state.checkout;
+
+  let session: PaymentSession;
+  try {
+    session = await provider.createSession({
+      roomCode: room.code,
+      checkoutId: result.checkoutId,
+      amountNok: UNLOCK_PRICE_NOK,
+      description: '18+ modus i 24 timer',
+    });
+  } catch (error) {
+    // The checkout stays open without a session, so nothing can ever pay it
+    console.error('Failed to create payment session', error);
+    return { success: false, error: 'Kunne ikke starte betalingen' };
+  }
+
+  registry.checkouts[session.sessionId] = {
+    sessionId: session.sessionId,
+    checkoutId: result.checkoutId,
+    purchaserId,
+    roomCode: room.code,
+    status: 'open',
+    createdAt: Date.now(),
+  };
+  persistCheckouts();
+
+  return { success: true, checkoutId: result.checkoutId, checkoutUrl: session.redirectUrl };
+}
+
+// The only way a checkout is marked paid or canceled
+export function handlePaymentWebhook(rawBody: string, signature: string | null): { success: boolean; error?: string; status: number } {
+  if (!verifySignature(rawBody, signature)) {
+    return { success: false, error: 'Ugyldig signatur', status: 401 };
+  }
+
+  let event: Partial<PaymentEvent>;
+  try {
+    event = JSON.parse(rawBody);
+  } catch {
+    return { success: false, error: 'Ugyldig hendelse', status: 400 };
+  }
+
+  const { type, sessionId, checkoutId } = event;
+  if (typeof sessionId !== 'string' || typeof checkoutId !== 'string') {
+    return { success: false, error: 'Ugyldig hendelse', status: 400 };
+  }
+  if (type !== 'checkout.paid' && type !== 'checkout.canceled') {
+    return { success: false, error: 'Ukjent hendelse', status: 400 };
+  }
+
+  const record = registry.checkouts[sessionId];
+  if (!record || record.checkoutId !== checkoutId) {
+    return { success: false, error: 'Fant ikke betalingen', status: 404 };
+  }
+
+  // Idempotent - providers retry deliveries
+  const status = type === 'checkout.paid' ? 'paid' : 'canceled';
+  if (record.status !== 'open' && record.status !== status) {
+    return { success: false, error: 'Checkout er ikke åpen', status: 409 };
+  }
+
+  record.status = status;
+  const entitlement = status === 'paid' ? grantEntitlement(record.purchaserId, record.checkoutId) : undefined;
+  persistCheckouts();
+
+  // The purchase stands either way; the room only shows it if it's still around
+  const room = getRoom(record.roomCode);
+  if (room) {
+    if (entitlement) markCheckoutPaid(room, record.checkoutId, entitlement.id);
+    else markCheckoutCanceled(room, record.checkoutId);
+    notifyRoom(room);
+  }
+  return { success: true, status: 200 };
+}
+
+export function getFakeSession(sessionId: string): FakeSession | undefined {
+  return registry.fakeSessions[sessionId];
+}
+
+// What the fake provider does when the buyer pays or cancels: sends itself a signed webhook
+export function completeFakeSession(sessionId: string, outcome: 'paid' | 'canceled'): { success: boolean; error?: string; status: number } {
+  const session = registry.fakeSessions[sessionId];
+  if (!session) return { success: false, error: 'Fant ikke betalingen', status: 404 };
+
+  const event: PaymentEvent = {
+    type: outcome === 'paid' ? 'checkout.paid' : 'checkout.canceled',
+    sessionId,
+    roomCode: session.roomCode,
+    checkoutId: session.checkoutId,
+  };
+  const rawBody = JSON.stringify(event);
+  const result = handlePaymentWebhook(rawBody, signPayload(rawBody, getWebhookSecret()!));
+  if (result.success) session.completed = true;
+  return result;
+}
@@ -0,0 +1,70 @@
+// lib/playerNames.ts
+// Rules for player names. Names are normalized before they are checked or
+// stored, so two names that look the same on the TV are the same name.
+// Configure with PLAYER_NAME_MAX_LENGTH and PLAYER_NAME_BANNED_WORDS
+// (comma-separated, added to the built-in list).
+
+export interface NameRules {
+  maxLength: number;
+  bannedWords: string[];
+}
+
+const DEFAULT_MAX_LENGTH = 20;
+const DEFAULT_BANNED_WORDS = ['fitte', 'kuk', 'pikk', 'hore', 'neger', 'nazi', 'hitler'];
+
+// Zero-width and formatting characters, soft hyphens and control characters.
+// The zero-width joiner (U+200D) and emoji variation selector (U+FE0F) are left to the patterns below.
+const INVISIBLE_CHARS = /[\u0000-\u001f\u007f-\u009f\u00ad\u034f\u061c\u115f\u1160\u17b4\u17b5\u180e\u200b\u200c\u200e\u200f\u202a-\u202e\u2060-\u206f\u3164\ufe00-\ufe0e\ufeff\uffa0]/g;
+// Built at runtime - the compile target predates the /u flag
+const LETTER_OR_DIGIT = new RegExp('[\\p{L}\\p{N}]', 'u');
+const NON_WORD = new RegExp('[^\\p{L}\\p{N}]+', 'u');
+// The joiner and variation selector build emoji such as 👨‍👩‍👧 and ❤️, so they stay inside an emoji and go elsewhere:
+// the selector must follow an emoji, the joiner must sit between two (skin tones and selectors allowed)
+const STRAY_VARIATION_SELECTOR = new RegExp('(?<!\\p{Extended_Pictographic})\\ufe0f', 'gu');
+const JOINER_WITHOUT_EMOJI_BEFORE = new RegExp('(?<!\\p{Extended_Pictographic}[\\u{1f3fb}-\\u{1f3ff}\\ufe0f]?)\\u200d', 'gu');
+const JOINER_WITHOUT_EMOJI_AFTER = new RegExp('\\u200d(?!\\p{Extended_Pictographic})', 'gu');
+
+export function getNameRules(): NameRules {
+  const maxLength = Number(process.env.PLAYER_NAME_MAX_LENGTH) || DEFAULT_MAX_LENGTH;
+  const extraWords = (process.env.PLAYER_NAME_BANNED_WORDS || '')
+    .split(',')
+    .map(word => nameKey(word))
+    .filter(Boolean);
+  return { maxLength, bannedWords: [...DEFAULT_BANNED_WORDS, ...extraWords] };
+}
+
+// The form a name is stored and shown in
+export function normalizePlayerName(raw: string): string {
+  return raw
+    .normalize('NFC')
+    .replace(INVISIBLE_CHARS, '')
+    .replace(STRAY_VARIATION_SELECTOR, '')
+    .replace(JOINER_WITHOUT_EMOJI_BEFORE, '')
+    .replace(JOINER_WITHOUT_EMOJI_AFTER, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// The form names are compared in - also folds case and look-alike forms such as full-width letters
+export function nameKey(name: string): string {
+  return normalizePlayerName(name).normalize('NFKC').toLowerCase();
+}
+
+function containsBannedWord(name: string, bannedWords: string[]): boolean {
+  const key = nameKey(name);
+  const words = key.split(NON_WORD).filter(Boolean);
+  const compact = words.join('');
+  return bannedWords.some(banned => compact === banned || words.includes(banned));
+}
+
+// Returns the normalized name, or a message for the join screen
+export function validatePlayerName(raw: unknown, rules: NameRules = getNameRules()): { name?: string; error?: string } {
+  const name = typeof raw === 'string' ? normalizePlayerName(raw) : '';
+
+  if (!name) return { error: 'Navn kan ikke være tomt' };
+  if (Array.from(name).length > rules.maxLength) return { error: `Navnet kan være maks ${rules.maxLength} tegn` };
+  if (!LETTER_OR_DIGIT.test(name)) return { error: 'Navnet må inneholde minst én bokstav eller ett tall' };
+  if (containsBannedWord(name, rules.bannedWords)) return { error: 'Navnet inneholder et ord som ikke er tillatt' };
+
+  return { name };
+}
@@ -0,0 +1,209 @@
+// lib/questionPacks.ts
+// Named question packs authored by hosts. A pack belongs to the TV that made
+// it (its purchaser id, see lib/entitlements.ts) and only that TV can see,
+// play, edit or delete it. The built-in questions are exposed as the
+// read-only "standard" pack, available to everyone.
+
+import { Question, QuestionKind, QuestionRisk, QuestionTone, questions } from './questions';
+import { Store, createStoreFromEnv } from './storage';
+
+export const STANDARD_PACK_ID = 'standard';
+export const MAX_PACK_NAME_LENGTH = 40;
+export const MAX_QUESTION_LENGTH = 200;
+export const MAX_OPTION_LENGTH = 60;
+
+export interface QuestionPack {
+  id: string;
+  name: string;
+  questions: Question[];
+  builtIn: boolean;
+  // Purchaser id of the TV that made it; null for the standard pack
+  ownerId: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// What the TV sees of a pack
+export type PublicQuestionPack = Omit<QuestionPack, 'ownerId'>;
+
+export interface QuestionPackInput {
+  name: string;
+  questions: Question[];
+}
+
+const VALID_TONES: QuestionTone[] = ['mild', 'spicy', 'drøy'];
+const VALID_RISKS: QuestionRisk[] = ['safe', 'relationship-risk'];
+const VALID_KINDS: QuestionKind[] = ['most-likely', 'would-you-rather', 'rank'];
+
+const standardPack: QuestionPack = {
+  id: STANDARD_PACK_ID,
+  name: 'Standard',
+  questions,
+  builtIn: true,
+  ownerId: null,
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+interface PackRegistry {
+  packs: Record<string, QuestionPack>;
+  store: Store<QuestionPack>;
+}
+
+function createRegistry(): PackRegistry {
+  const store = createStoreFromEnv<QuestionPack>('packs');
+  const packs: Record<string, QuestionPack> = {};
+  store.load().forEach(pack => {
+    packs[pack.id] = pack;
+  });
+  return { packs, store };
+}
+
+// Kept on globalThis so every route bundle shares one library - see lib/rooms.ts
+const globalForPacks = globalThis as typeof globalThis & { packRegistry?: PackRegistry };
+const registry: PackRegistry = globalForPacks.packRegistry ??= createRegistry();
+const { packs } = registry;
+
+function persistPacks(): void {
+  try {
+    registry.store.save(Object.values(packs));
+  } catch (error) {
+    console.error('Failed to persist question packs', error);
+  }
+}
+
+function generatePackId(): string {
+  return 'pack_' + Math.random().toString(36).substring(2, 10) + Date.now().toString(36);
+}
+
+// Validate and normalize host input; returns the cleaned pack or an error
+function validatePackInput(input: unknown, ownerId: string, excludeId?: string): { pack?: QuestionPackInput; error?: string } {
+  if (!input || typeof input !== 'object') return { error: 'Ugyldig pakke' };
+  const { name, questions: rawQuestions } = input as { name?: unknown; questions?: unknown };
+
+  const trimmedName = typeof name === 'string' ? name.trim() : '';
+  if (!trimmedName) return { error: 'Pakken må ha et navn' };
+  if (trimmedName.length > MAX_PACK_NAME_LENGTH) return { error: `Navnet kan være maks ${MAX_PACK_NAME_LENGTH} tegn` };
+
+  const nameLower = trimmedName.toLowerCase();
+  const nameTaken = getPacks(ownerId).some(p => p.id !== excludeId && p.name.toLowerCase() === nameLower);
+  if (nameTaken) return { error: 'Det finnes allerede en pakke med dette navnet' };
+
+  if (!Array.isArray(rawQuestions) || rawQuestions.length === 0) {
+    return { error: 'Pakken må ha minst ett spørsmål' };
+  }
+
+  const cleaned: Question[] = [];
+  const seen = new Set<string>();
+  for (let i = 0; i < rawQuestions.length; i++) {
+    const q = rawQuestions[i] as { text?: unknown; tone?: unknown; risk?: unknown; kind?: unknown; options?: unknown } | null;
+    const label = `Spørsmål ${i + 1}`;
+
+    const text = typeof q?.text === 'string' ? q.text.trim() : '';
+    if (!text) return { error: `${label}: teksten kan ikke være tom` };
+    if (text.length > MAX_QUESTION_LENGTH) return { error: `${label}: maks ${MAX_QUESTION_LENGTH} tegn` };
+    if (!VALID_TONES.includes(q?.tone as QuestionTone)) return { error: `${label}: ugyldig tone` };
+    if (!VALID_RISKS.includes(q?.risk as QuestionRisk)) return { error: `${label}: ugyldig risiko` };
+
+    const kind = (q?.kind ?? 'most-likely') as QuestionKind;
+    if (!VALID_KINDS.includes(kind)) return { error: `${label}: ugyldig spørsmålstype` };
+
+    const key = text.toLowerCase();
+    if (seen.has(key)) return { error: `${label}: spørsmålet finnes allerede i pakken` };
+    seen.add(key);
+
+    const question: Question = { text, tone: q!.tone as QuestionTone, risk: q!.risk as QuestionRisk };
+    if (kind !== 'most-likely') question.kind = kind;
+
+    if (kind === 'would-you-rather') {
+      const options = Array.isArray(q?.options) ? q!.options.map(o => (typeof o === 'string' ? o.trim() : '')) : [];
+      if (options.length !== 2 || options.some(o => !o)) return { error: `${label}: trenger to svaralternativer` };
+      if (options.some(o => o.length > MAX_OPTION_LENGTH)) return { error: `${label}: svaralternativ kan være maks ${MAX_OPTION_LENGTH} tegn` };
+      if (options[0].toLowerCase() === options[1].toLowerCase()) return { error: `${label}: svaralternativene må være forskjellige` };
+      question.options = options;
+    }
+
+    cleaned.push(question);
+  }
+
+  return { pack: { name: trimmedName, questions: cleaned } };
+}
+
+function toPublicPack({ ownerId: _ownerId, ...pack }: QuestionPack): PublicQuestionPack {
+  return pack;
+}
+
+// The standard pack and the TV's own; a room without a purchaser id only gets the standard pack
+export function getPacks(ownerId: string | null): PublicQuestionPack[] {
+  const custom = Object.values(packs)
+    .filter(p => ownerId !== null && p.ownerId === ownerId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+  return [standardPack, ...custom].map(toPublicPack);
+}
+
+// Someone else's pack is reported as missing, not as forbidden
+export function getPack(id: string, ownerId: string | null): QuestionPack | undefined {
+  if (id === STANDARD_PACK_ID) return standardPack;
+  const pack = packs[id];
+  return pack && ownerId !== null && pack.ownerId === ownerId ? pack : undefined;
+}
+
+export function createPack(ownerId: string | null, input: unknown): { success: boolean; error?: string; pack?: PublicQuestionPack } {
+  if (!ownerId) return { success: false, error: 'Start et nytt rom for å lage pakker' };
+
+  const { pack: valid, error } = validatePackInput(input, ownerId);
+  if (!valid) return { success: false, error };
+
+  const now = Date.now();
+  const pack: QuestionPack = {
+    id: generatePackId(),
+    name: valid.name,
+    questions: valid.questions,
+    builtIn: false,
+    ownerId,
+    createdAt: now,
+    updatedAt: now,
+  };
+  packs[pack.id] = pack;
+  persistPacks();
+  return { success: true, pack: toPublicPack(pack) };
+}
+
+export function updatePack(ownerId: string | null, id: string, input: unknown): { success: boolean; error?: string; pack?: PublicQuestionPack } {
+  if (id === STANDARD_PACK_ID) return { success: false, error: 'Standardpakken kan ikke endres' };
+  const existing = getPack(id, ownerId);
+  if (!existing || !ownerId) return { success: false, error: 'Fant ikke pakken' };
+
+  const { pack: valid, error } = validatePackInput(input, ownerId, id);
+  if (!valid) return { success: false, error };
+
+  existing.name = valid.name;
+  existing.questions = valid.questions;
+  existing.updatedAt = Date.now();
+  persistPacks();
+  return { success: true, pack: toPublicPack(existing) };
+}
+
+export function deletePack(ownerId: string | null, id: string): { success: boolean; error?: string } {
+  if (id === STANDARD_PACK_ID) return { success: false, error: 'Standardpakken kan ikke slettes' };
+  if (!getPack(id, ownerId)) return { success: false, error: 'Fant ikke pakken' };
+
+  delete packs[id];
+  persistPacks();
+  return { success: true };
+}
+
+// All questions from the given packs, without duplicates; unknown ids and other TVs' packs are skipped
+export function getQuestionsForPacks(packIds: string[], ownerId: string | null): Question[] {
+  const seen = new Set<string>();
+  const result: Question[] = [];
+  packIds.forEach(id => {
+    getPack(id, ownerId)?.questions.forEach(q => {
+      const key = q.text.toLowerCase();
+      if (seen.has(key)) return;
+      seen.add(key);
+      result.push(q);
+    });
+  });
+  return result;
+}
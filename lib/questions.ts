@@ -1,15 +1,23 @@
 // lib/questions.ts
-// Norwegian "Hvem er mest sannsynlig" questions with tone and risk classification
+// Norwegian "Hvem er mest sannsynlig" questions with tone and risk classification,
+// plus "Heller ... eller ..." polls and top-3 rankings
 
 export type QuestionTone = 'mild' | 'spicy' | 'drøy';
 export type QuestionRisk = 'safe' | 'relationship-risk';
 export type QuestionCategory = 'standard' | '18+';
 export type AdultTone = 'sexy' | 'direct' | 'grisete';
 
+// How a question is answered: point at someone, pick one of two options, or rank the top 3
+export type QuestionKind = 'most-likely' | 'would-you-rather' | 'rank';
+
 export interface Question {
   text: string;
   tone: QuestionTone;
   risk: QuestionRisk;
+  // Defaults to 'most-likely'
+  kind?: QuestionKind;
+  // Exactly two, for 'would-you-rather'
+  options?: string[];
 }
 
 export interface AdultQuestion {
@@ -61,6 +69,22 @@ export const questions: Question[] = [
   { text: "Hvem er mest sannsynlig til å sende nudes til feil person?", tone: 'drøy', risk: 'relationship-risk' },
   { text: "Hvem er mest sannsynlig til å ha en one night stand med noen i denne gruppa?", tone: 'drøy', risk: 'relationship-risk' },
   { text: "Hvem er mest sannsynlig til å ødelegge noen andres forhold?", tone: 'drøy', risk: 'relationship-risk' },
+
+  // HELLER ... ELLER (6)
+  { text: "Heller være usynlig eller kunne fly?", tone: 'mild', risk: 'safe', kind: 'would-you-rather', options: ["Være usynlig", "Kunne fly"] },
+  { text: "Heller aldri drikke kaffe igjen eller aldri spise sjokolade igjen?", tone: 'mild', risk: 'safe', kind: 'would-you-rather', options: ["Aldri kaffe", "Aldri sjokolade"] },
+  { text: "Heller bo på hytta resten av livet eller i sentrum av Oslo?", tone: 'mild', risk: 'safe', kind: 'would-you-rather', options: ["Hytta", "Sentrum av Oslo"] },
+  { text: "Heller at sjefen leser meldingene dine eller at mora di ser nettleserhistorikken din?", tone: 'spicy', risk: 'safe', kind: 'would-you-rather', options: ["Sjefen leser meldingene", "Mora ser historikken"] },
+  { text: "Heller holde tale i et bryllup på fylla eller i en begravelse edru?", tone: 'spicy', risk: 'safe', kind: 'would-you-rather', options: ["Bryllup på fylla", "Begravelse edru"] },
+  { text: "Heller at partneren din leser alle meldingene dine eller at du leser alle deres?", tone: 'drøy', risk: 'relationship-risk', kind: 'would-you-rather', options: ["De leser mine", "Jeg leser deres"] },
+
+  // RANGERING - TOPP 3 (6)
+  { text: "Hvem ville overlevd lengst på en øde øy?", tone: 'mild', risk: 'safe', kind: 'rank' },
+  { text: "Hvem er best til å holde på en hemmelighet?", tone: 'mild', risk: 'safe', kind: 'rank' },
+  { text: "Hvem ville vunnet en quiz?", tone: 'mild', risk: 'safe', kind: 'rank' },
+  { text: "Hvem er først til å gå hjem fra festen?", tone: 'spicy', risk: 'safe', kind: 'rank' },
+  { text: "Hvem ville klart seg dårligst i et realityprogram?", tone: 'spicy', risk: 'safe', kind: 'rank' },
+  { text: "Hvem har flest hemmeligheter partneren ikke vet om?", tone: 'drøy', risk: 'relationship-risk', kind: 'rank' },
 ];
 
 // 18+ Questions - Late Night pack
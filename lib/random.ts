@@ -0,0 +1,45 @@
+// lib/random.ts
+// Seeded randomness for the game engine. A game draws everything from one
+// generator whose seed and position live in its state, so the same seed
+// replays the same question order, draws and rerolls.
+
+export type Random = () => number;
+
+// A fresh 32-bit seed for a new game
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+// One step of mulberry32: a value in [0, 1) and the state to continue from
+export function nextRandom(state: number): { value: number; state: number } {
+  const next = (state + 0x6d2b79f5) | 0;
+  let t = Math.imul(next ^ (next >>> 15), next | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return { value: ((t ^ (t >>> 14)) >>> 0) / 0x100000000, state: next >>> 0 };
+}
+
+// A standalone generator - for draws that must come out the same however often they're made
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    const next = nextRandom(state);
+    state = next.state;
+    return next.value;
+  };
+}
+
+// Fisher-Yates on a copy
+export function shuffle<T>(items: readonly T[], random: Random): T[] {
+  const result = items.slice();
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const swap = result[i];
+    result[i] = result[j];
+    result[j] = swap;
+  }
+  return result;
+}
+
+export function pickRandom<T>(items: readonly T[], random: Random): T {
+  return items[Math.floor(random() * items.length)];
+}
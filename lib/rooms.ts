@@ -0,0 +1,170 @@
+// lib/rooms.ts
+// Room registry - each TV gets its own game, keyed by a short join code.
+// Rooms live in memory, are snapshotted to the configured store on every
+// change (see lib/storage.ts) and are dropped after a period of inactivity.
+
+import { GameState, Player, createInitialState, generateRejoinPin, generateToken, tickRoom } from './gameState';
+import { Store, createStoreFromEnv } from './storage';
+
+export interface Room {
+  code: string;
+  // Secret handed to the TV that created the room; required for host-only actions
+  hostToken: string;
+  // Hashed device id of that TV, used for its purchases, question packs and game history - see lib/entitlements.ts
+  purchaserId: string | null;
+  // PIN shown on the TV that lets a player reclaim their seat - see rejoinPlayer
+  rejoin: RejoinGuard;
+  state: GameState;
+  tokenMap: Record<string, Player>;
+  createdAt: number;
+  lastActivityAt: number;
+}
+
+export interface RejoinGuard {
+  pin: string;
+  // Bumped whenever the PIN changes, so the TV knows to fetch the new one
+  version: number;
+  failures: number;
+  lockedUntil: number;
+}
+
+export const ROOM_CODE_LENGTH = 4;
+export const ROOM_TTL_MS = 2 * 60 * 60 * 1000;
+const TICK_INTERVAL_MS = 250;
+
+// No I or O - too easy to confuse with 1 and 0 on a TV across the room
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+export type RoomListener = (room: Room) => void;
+
+interface RoomRegistry {
+  rooms: Record<string, Room>;
+  listeners: Record<string, Set<RoomListener>>;
+  ticker: ReturnType<typeof setInterval> | null;
+  store: Store<Room>;
+}
+
+// Rehydrate saved rooms, filling in any state fields added since they were saved
+function createRegistry(): RoomRegistry {
+  const store = createStoreFromEnv<Room>('rooms');
+  const rooms: Record<string, Room> = {};
+  store.load().forEach(saved => {
+    rooms[saved.code] = {
+      ...saved,
+      purchaserId: saved.purchaserId ?? null,
+      rejoin: saved.rejoin ? { ...saved.rejoin, version: saved.rejoin.version ?? 0 } : createRejoinGuard(),
+      state: { ...createInitialState(), ...saved.state },
+    };
+  });
+  return { rooms, listeners: {}, ticker: null, store };
+}
+
+// Kept on globalThis so every route bundle (and dev hot reloads) share one registry
+const globalForRooms = globalThis as typeof globalThis & { roomRegistry?: RoomRegistry };
+const registry: RoomRegistry = globalForRooms.roomRegistry ??= createRegistry();
+const { rooms, listeners } = registry;
+
+function createRejoinGuard(): RejoinGuard {
+  return { pin: generateRejoinPin(), version: 0, failures: 0, lockedUntil: 0 };
+}
+
+function generateRoomCode(): string {
+  let code = '';
+  for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+    code += ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+export function normalizeRoomCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function persistRooms(): void {
+  try {
+    registry.store.save(Object.values(rooms));
+  } catch (error) {
+    // A failing disk shouldn't stop the game that's running in memory
+    console.error('Failed to persist rooms', error);
+  }
+}
+
+// Drop rooms nobody has touched within ROOM_TTL_MS
+export function pruneExpiredRooms(now: number = Date.now()): void {
+  let pruned = false;
+  Object.keys(rooms).forEach(code => {
+    if (now - rooms[code].lastActivityAt > ROOM_TTL_MS) {
+      delete rooms[code];
+      delete listeners[code];
+      pruned = true;
+    }
+  });
+  if (pruned) persistRooms();
+}
+
+// Rounds end on the server's clock, whether or not any client is watching
+function ensureTicker(): void {
+  if (registry.ticker) return;
+  registry.ticker = setInterval(() => {
+    const now = Date.now();
+    Object.values(rooms).forEach(room => {
+      if (tickRoom(room, now)) notifyRoom(room);
+    });
+  }, TICK_INTERVAL_MS);
+  registry.ticker.unref?.();
+}
+
+export function createRoom(purchaserId: string | null = null): Room {
+  pruneExpiredRooms();
+  ensureTicker();
+
+  let code = generateRoomCode();
+  while (rooms[code]) code = generateRoomCode();
+
+  const now = Date.now();
+  const room: Room = {
+    code,
+    hostToken: generateToken(),
+    purchaserId,
+    rejoin: createRejoinGuard(),
+    state: createInitialState(),
+    tokenMap: {},
+    createdAt: now,
+    lastActivityAt: now,
+  };
+  rooms[code] = room;
+  persistRooms();
+  return room;
+}
+
+// Look up a room and mark it as active
+export function getRoom(code: string): Room | undefined {
+  pruneExpiredRooms();
+  ensureTicker();
+
+  const room = rooms[normalizeRoomCode(code)];
+  if (room) {
+    room.lastActivityAt = Date.now();
+    if (tickRoom(room)) notifyRoom(room);
+  }
+  return room;
+}
+
+export function isHost(room: Room, hostToken: unknown): boolean {
+  return typeof hostToken === 'string' && hostToken === room.hostToken;
+}
+
+// Listen for changes to a room; returns an unsubscribe function
+export function subscribeToRoom(room: Room, listener: RoomListener): () => void {
+  if (!listeners[room.code]) listeners[room.code] = new Set();
+  listeners[room.code].add(listener);
+  return () => {
+    listeners[room.code]?.delete(listener);
+  };
+}
+
+// Call after every mutation of a room's state - persists it and pushes it to listeners
+export function notifyRoom(room: Room): void {
+  persistRooms();
+  listeners[room.code]?.forEach(listener => listener(room));
+}
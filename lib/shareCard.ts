@@ -0,0 +1,89 @@
+// lib/shareCard.ts
+// Share cards for the finale, drawn as SVG on the server from the finale
+// summary - no fonts, images or services are fetched. Avatars are emoji, so
+// they show in whatever emoji font the viewing device has.
+
+import { AVATARS, Award, FinaleSummary, Player } from './gameState';
+
+export const CARD_WIDTH = 1200;
+export const CARD_HEIGHT = 630;
+
+const FONT_FAMILY = "'Arial Rounded MT Bold', Arial, 'Apple Color Emoji', 'Segoe UI Emoji', 'Noto Color Emoji', sans-serif";
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+export interface PlayerCardInput {
+  player: Player;
+  wins: number;
+  // Where they ended among the most-chosen, 1-based; null outside the top 3
+  place: number | null;
+  awards: Award[];
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function getAvatarIcon(avatarId: string): string {
+  return AVATARS.find(a => a.id === avatarId)?.icon || '👤';
+}
+
+function text(x: number, y: number, size: number, fill: string, content: string, weight: 'normal' | 'bold' = 'normal'): string {
+  return `<text x="${x}" y="${y}" font-size="${size}" fill="${fill}" font-weight="${weight}" text-anchor="middle">${escapeXml(content)}</text>`;
+}
+
+// Background and title shared by every card
+function frame(title: string, body: string): string {
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" viewBox="0 0 ${CARD_WIDTH} ${CARD_HEIGHT}" font-family="${escapeXml(FONT_FAMILY)}">`,
+    '<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="#3b0764"/><stop offset="1" stop-color="#1e3a8a"/></linearGradient></defs>',
+    `<rect width="${CARD_WIDTH}" height="${CARD_HEIGHT}" fill="url(#bg)"/>`,
+    text(CARD_WIDTH / 2, 80, 56, '#facc15', title, 'bold'),
+    body,
+    text(CARD_WIDTH / 2, CARD_HEIGHT - 28, 22, '#d1d5db', 'HVEM I STUA ?'),
+    '</svg>',
+  ].join('');
+}
+
+function awardBox(award: Award, x: number, y: number, width: number): string {
+  const cx = x + width / 2;
+  return [
+    `<rect x="${x}" y="${y}" width="${width}" height="210" rx="20" fill="#ffffff" fill-opacity="0.1" stroke="#ffffff" stroke-opacity="0.25"/>`,
+    text(cx, y + 40, 22, '#d1d5db', award.title),
+    text(cx, y + 110, 56, '#ffffff', getAvatarIcon(award.avatarId)),
+    text(cx, y + 155, 30, '#ffffff', award.name, 'bold'),
+    text(cx, y + 190, 22, '#facc15', award.valueText),
+  ].join('');
+}
+
+export function renderFinaleCard(summary: FinaleSummary): string {
+  const awards = summary.awards.slice(0, 5);
+  const gap = 20;
+  const boxWidth = awards.length > 0 ? Math.min(260, (CARD_WIDTH - 80 - gap * (awards.length - 1)) / awards.length) : 0;
+  const rowWidth = awards.length * boxWidth + (awards.length - 1) * gap;
+  const startX = (CARD_WIDTH - rowWidth) / 2;
+
+  const awardRow = awards.map((award, i) => awardBox(award, startX + i * (boxWidth + gap), 130, boxWidth)).join('');
+  const podium = summary.top3
+    .map((entry, i) => `${MEDALS[i]} ${getAvatarIcon(entry.avatarId)} ${entry.name} (${entry.wins})`)
+    .join('   ');
+
+  return frame('🏆 Kveldens Priser 🏆', awardRow + (podium ? text(CARD_WIDTH / 2, 440, 34, '#ffffff', podium, 'bold') : ''));
+}
+
+export function renderPlayerCard({ player, wins, place, awards }: PlayerCardInput): string {
+  const parts = [
+    text(CARD_WIDTH / 2, 230, 120, '#ffffff', getAvatarIcon(player.avatarId)),
+    text(CARD_WIDTH / 2, 310, 56, '#ffffff', player.name, 'bold'),
+    text(CARD_WIDTH / 2, 370, 32, '#d1d5db', `${place ? `${MEDALS[place - 1]} ` : ''}${wins} ${wins === 1 ? 'seier' : 'seire'} i kveld`),
+  ];
+  awards.slice(0, 2).forEach((award, i) => {
+    parts.push(text(CARD_WIDTH / 2, 440 + i * 56, 36, '#facc15', `${award.title} · ${award.valueText}`, 'bold'));
+  });
+
+  return frame('Min kveld i stua', parts.join(''));
+}
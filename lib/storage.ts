@@ -0,0 +1,51 @@
+// lib/storage.ts
+// Pluggable persistence for rooms and question packs, so a restart doesn't
+// wipe a running party. Choose with GAME_STORE=file (default) or
+// GAME_STORE=memory; the file store writes one JSON file per collection
+// into GAME_STORE_DIR (default .data/).
+
+import fs from 'fs';
+import path from 'path';
+
+export interface Store<T> {
+  load(): T[];
+  save(items: T[]): void;
+}
+
+export type StoreName = 'rooms' | 'packs' | 'entitlements' | 'history' | 'checkouts';
+
+// Keeps nothing - state lives only as long as the process
+export function createMemoryStore<T>(): Store<T> {
+  return {
+    load: () => [],
+    save: () => {},
+  };
+}
+
+// Snapshots the whole collection to a single JSON file
+export function createJsonFileStore<T>(filePath: string): Store<T> {
+  return {
+    load() {
+      try {
+        const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        return Array.isArray(data.items) ? data.items : [];
+      } catch {
+        // Missing or corrupt file - start empty rather than refuse to boot
+        return [];
+      }
+    },
+    save(items) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      // Write then rename so a crash mid-write never leaves a half-written file
+      const tmpPath = `${filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify({ items }));
+      fs.renameSync(tmpPath, filePath);
+    },
+  };
+}
+
+export function createStoreFromEnv<T>(name: StoreName): Store<T> {
+  if (process.env.GAME_STORE === 'memory') return createMemoryStore<T>();
+  const dir = process.env.GAME_STORE_DIR || path.join(process.cwd(), '.data');
+  return createJsonFileStore<T>(path.join(dir, `${name}.json`));
+}
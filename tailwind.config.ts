@@ -11,6 +11,15 @@ const config: Config = {
       fontFamily: {
         bangers: ['var(--font-bangers)'],
       },
+      keyframes: {
+        'arrow-in': {
+          '0%': { opacity: '0', transform: 'translateX(-1.5rem)' },
+          '100%': { opacity: '1', transform: 'translateX(0)' },
+        },
+      },
+      animation: {
+        'arrow-in': 'arrow-in 0.4s ease-out both',
+      },
     },
   },
   plugins: [],